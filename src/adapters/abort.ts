@@ -0,0 +1,76 @@
+// universal-developer/src/adapters/abort.ts
+
+import { TimeoutError } from './errors';
+
+/**
+ * Raised when a call is cancelled through its `signal`
+ */
+export class AbortError extends Error {
+  constructor(public readonly reason?: any) {
+    super(`The call was aborted${describeReason(reason)}`);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Signal of a single call, aborted when the caller's signal is or when the
+ * timeout elapses. Its reason is the error the call should fail with: an
+ * AbortError, or a TimeoutError for the timeout.
+ */
+export interface CallSignal {
+  signal?: AbortSignal; // Undefined when the call can be neither cancelled nor time out
+  dispose(): void; // Stops the timer and detaches from the caller's signal once the call ends
+}
+
+/**
+ * Combine a caller's signal and a timeout into the signal of one call
+ * @param provider Provider identifier, reported on timeouts
+ * @param signal Signal passed by the caller
+ * @param timeoutMs Time allowed for the whole call, including retries and every request it makes
+ */
+export function createCallSignal(provider: string, signal?: AbortSignal, timeoutMs?: number): CallSignal {
+  if (!signal && timeoutMs === undefined) {
+    return { dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(new AbortError(signal!.reason));
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeoutMs !== undefined
+    ? setTimeout(
+        () => controller.abort(new TimeoutError(`Call timed out after ${timeoutMs} ms`, { provider, type: 'timeout' })),
+        timeoutMs
+      )
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Raise the reason of an aborted signal; does nothing otherwise
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
+
+// Reasons passed to abort() are shown; the default reason of a bare abort() adds nothing
+function describeReason(reason: any): string {
+  if (typeof reason === 'string') {
+    return `: ${reason}`;
+  }
+  return reason instanceof Error && reason.name !== 'AbortError' ? `: ${reason.message}` : '';
+}
@@ -1,36 +1,373 @@
 // universal-developer/src/adapters/base.ts
 
+import { JSONSchema, validateSchema } from '../schema';
+import { resolveGlyph } from '../glyphs';
+import { contentText, mediaParts, userContent } from './content';
+import { PromptTokenCount, TokenBudget, Tokenizer, countPromptTokens, getTokenizer } from '../tokenizer';
+import { retryDelay, sleep, withRetry } from './retry';
+import { createCallSignal, throwIfAborted } from './abort';
+import { ResponseCache, cacheKey } from '../cache';
+import { Cassette } from '../cassette';
+
+export type CommandParameterType = 'string' | 'number' | 'boolean' | 'enum' | 'range' | 'json';
+
+export interface CommandParameter {
+  name: string;
+  description: string;
+  type?: CommandParameterType;
+  required?: boolean;
+  default?: any;
+  values?: string[]; // Allowed values for enum parameters
+  min?: number; // Lower bound for number and range parameters
+  max?: number; // Upper bound for number and range parameters; range values must also be whole numbers
+}
+
 export interface SymbolicCommand {
   name: string;
   description: string;
   aliases?: string[];
-  parameters?: {
-    name: string;
-    description: string;
-    required?: boolean;
-    default?: any;
-  }[];
+  parameters?: CommandParameter[];
+  cacheable?: boolean; // False for commands whose responses should differ between calls, e.g. /fork
   transform: (prompt: string, options: any) => Promise<TransformedPrompt>;
 }
 
+export interface ParsedCommand {
+  name: string;
+  parameters: Record<string, any>;
+  // Pinned with --sticky, so it also applies to later calls until /collapse
+  sticky?: boolean;
+}
+
+export type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Where an image or document comes from. Files are read when the request is
+ * built; their media type is inferred from the extension unless given.
+ */
+export type MediaSource =
+  | { type: 'file'; path: string; mediaType?: string }
+  | { type: 'base64'; data: string; mediaType: string }
+  | { type: 'url'; url: string; mediaType?: string };
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: MediaSource }
+  | { type: 'document'; source: MediaSource; name?: string };
+
+export type MediaType = 'image' | 'document';
+
+// Plain text, or text mixed with images and documents
+export type MessageContent = string | ContentPart[];
+
+export interface ChatMessage {
+  role: MessageRole;
+  content: MessageContent;
+  toolCalls?: ToolCall[]; // Tools requested by an assistant turn
+  toolCallId?: string; // Call answered by a tool turn
+  isError?: boolean; // Set on a tool turn when the tool failed
+}
+
+/**
+ * Provider-neutral tool definition. The handler is only used when the call
+ * runs tools automatically with `runTools`.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JSONSchema; // JSON Schema for the tool's arguments
+  handler?: (args: any) => any | Promise<any>;
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: any; // Parsed JSON arguments; the raw string if the model produced invalid JSON
+}
+
+export interface ToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface GenerateInput {
+  prompt?: MessageContent;
+  systemPrompt?: string;
+  messages?: ChatMessage[]; // Conversation history; commands are read from the latest user turn
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  runTools?: boolean; // Run tool handlers and send their results back until the model answers
+  maxToolRounds?: number; // Limit on tool round-trips when runTools is set (default 5)
+  cache?: boolean; // False bypasses the response cache; true uses it even with commands that opt out
+  signal?: AbortSignal; // Cancels the call, which then fails with an AbortError
+  timeoutMs?: number; // Time allowed for the whole call, overriding the timeoutMs option
+  parameters?: Record<string, Record<string, any>>; // Parameter values by command name, used as given for commands in the prompt
+}
+
 export interface TransformedPrompt {
   systemPrompt?: string;
   userPrompt: string;
+  attachments?: ContentPart[]; // Images and documents sent with userPrompt
+  history?: ChatMessage[]; // Earlier user/assistant turns preceding userPrompt
+  toolTurns?: ChatMessage[]; // Tool calls and their results following userPrompt
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
   modelParameters?: Record<string, any>;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * HTTP request an adapter sends to its provider
+ */
+export interface ProviderRequest {
+  method: 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+/**
+ * Everything a call would do, resolved without contacting the provider
+ */
+export interface ExplainResult {
+  provider: string;
+  commands: ParsedCommand[];
+  transformed: TransformedPrompt;
+  request: ProviderRequest; // Headers have the API key redacted
+  tokens: TokenBudget;
+}
+
+export type FinishReason = 'stop' | 'length' | 'tool_use' | 'content_filter' | 'unknown';
+
+/**
+ * Normalized response returned by an adapter's provider call
+ */
+export interface ProviderResponse {
+  text: string;
+  thinking?: string;
+  usage?: TokenUsage;
+  finishReason?: FinishReason;
+  model: string;
+  requestId?: string;
+  parsed?: any; // Parsed output when /format --format=json is applied
+  toolCalls?: ToolCall[]; // Tools the model asked to call
+  cached?: boolean; // Served from the response cache instead of the provider
+  raw: any; // Unmodified provider response body
+}
+
+export interface RefinementStep {
+  type: 'draft' | 'critique' | 'revision';
+  iteration: number; // 0 for the initial draft
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface RefinementTrace {
+  steps: RefinementStep[];
+  stoppedEarly: boolean; // True when a critique found nothing left to fix
+}
+
+/**
+ * Which provider config answered a call in router mode
+ */
+export interface RouteInfo {
+  name: string; // Name of the provider config that answered
+  fallbacks: Array<{ name: string, error: Error }>; // Configs tried first that failed with retryable errors
+}
+
+export interface GenerateResult extends ProviderResponse {
+  provider: string;
+  commands: ParsedCommand[]; // Commands applied to the prompt, in order
+  alternatives?: GenerateResult[]; // Independent samples when /fork runs in execute mode
+  trace?: RefinementTrace; // Drafts and critiques when /loop runs in execute mode
+  toolResults?: ToolResult[]; // Tools run automatically with runTools, in order
+  cost?: number; // USD, from usage and the model's pricing; undefined when either is unknown
+  route?: RouteInfo; // Set in router mode
+}
+
+export type StreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: 'done'; usage?: TokenUsage; finishReason?: FinishReason; route?: RouteInfo };
+
+/**
+ * State of a call as it passes through middleware. Hooks modify the call by
+ * replacing `input`, `transformed`, `request` or `response`.
+ */
+export interface MiddlewareContext {
+  provider: string;
+  input: GenerateInput;
+  commands?: ParsedCommand[]; // Set from afterTransform on
+  transformed?: TransformedPrompt; // Set from afterTransform on
+  request?: ProviderRequest; // Set for beforeRequest and afterResponse
+  tokens?: TokenBudget; // Estimated prompt tokens and max_tokens of the request, set with request
+  response?: ProviderResponse; // Set for afterResponse
+  signal?: AbortSignal; // Aborted when the call is cancelled or times out
+  state: Record<string, any>; // Shared by every hook for the duration of one call
+}
+
+// A hook that returns a response short-circuits the call (or, for beforeRequest, the request)
+export type MiddlewareHookResult = ProviderResponse | void;
+
+/**
+ * Hooks run around every call, in the order the middleware was registered
+ */
+export interface Middleware {
+  name?: string;
+  beforeParse?: (context: MiddlewareContext) => MiddlewareHookResult | Promise<MiddlewareHookResult>;
+  afterTransform?: (context: MiddlewareContext) => MiddlewareHookResult | Promise<MiddlewareHookResult>;
+  beforeRequest?: (context: MiddlewareContext) => MiddlewareHookResult | Promise<MiddlewareHookResult>;
+  afterResponse?: (context: MiddlewareContext) => void | Promise<void>;
+  onError?: (error: Error, context: MiddlewareContext) => MiddlewareHookResult | Promise<MiddlewareHookResult>;
+}
+
+// Accepted by every command to pin it as a session mode
+const STICKY_PARAMETER: CommandParameter = {
+  name: 'sticky',
+  description: 'Keep applying this command to later calls until /collapse',
+  type: 'boolean'
+};
+
+// Critique reply that ends an executed /loop early
+const NO_ISSUES_MARKER = 'NO_ISSUES';
+
+// A prompt must leave at least this much of the context window for the response
+const MIN_OUTPUT_TOKENS = 256;
+
+const CRITIQUE_PROMPT = `Critically review your previous response. Identify factual errors, gaps in reasoning, unclear explanations and anything that fails to address the request. List each issue with a concrete suggestion for fixing it.
+
+If the response needs no changes, reply with exactly ${NO_ISSUES_MARKER} and nothing else.`;
+
+const REVISE_PROMPT = 'Revise your previous response to address every issue raised in the critique below. Reply with only the improved response, without commentary about the changes.';
+
+/**
+ * Raised when a command parameter is unknown, missing or fails validation
+ */
+export class CommandParameterError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly parameter: string,
+    public readonly value: any,
+    public readonly reason: string
+  ) {
+    super(`Invalid parameter --${parameter} for /${command}: ${reason}`);
+    this.name = 'CommandParameterError';
+  }
+}
+
+/**
+ * Raised when output requested with /format --format=json is still invalid
+ * after all repair attempts
+ */
+export class FormatValidationError extends Error {
+  constructor(
+    public readonly errors: string[],
+    public readonly output: string,
+    public readonly attempts: number
+  ) {
+    super(`Response failed JSON validation after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'FormatValidationError';
+  }
+}
+
+/**
+ * Raised when a prompt includes images or documents the selected model
+ * cannot accept
+ */
+export class UnsupportedContentError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly model: string,
+    public readonly mediaType: MediaType
+  ) {
+    super(`Model ${model} (${provider}) does not accept ${mediaType} input; choose a model that supports ${mediaType}s or set the vision option`);
+    this.name = 'UnsupportedContentError';
+  }
+}
+
+/**
+ * Raised before sending a prompt that does not fit the model's context
+ * window with room left for the response
+ */
+export class ContextWindowError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly contextWindow: number,
+    public readonly promptTokens: PromptTokenCount,
+    public readonly minOutputTokens: number
+  ) {
+    const parts = ([
+      ['system prompt and command instructions', promptTokens.systemPrompt],
+      ['history', promptTokens.history],
+      ['prompt', promptTokens.userPrompt],
+      ['attachments', promptTokens.attachments],
+      ['tools', promptTokens.tools]
+    ] as Array<[string, number]>)
+      .filter(([, tokens]) => tokens > 0)
+      .map(([label, tokens]) => `${label}: ${formatTokens(tokens)}`)
+      .join(', ');
+    const remaining = contextWindow - promptTokens.total;
+    
+    super(
+      `Prompt is about ${formatTokens(promptTokens.total)} tokens (${parts}), ` +
+      (remaining > 0
+        ? `leaving only ${formatTokens(remaining)} of the ${formatTokens(contextWindow)}-token context window of ${model} for the response (at least ${formatTokens(minOutputTokens)} needed). `
+        : `which exceeds the ${formatTokens(contextWindow)}-token context window of ${model}. `) +
+      'Shorten the input or choose a model with a larger context window.'
+    );
+    this.name = 'ContextWindowError';
+  }
+}
+
+/**
+ * Commands that apply to a call and the modes pinned once it succeeds
+ */
+interface CommandResolution {
+  commands: ParsedCommand[];
+  cleanPrompt: string;
+  modes: ParsedCommand[];
+}
+
 export abstract class ModelAdapter {
   protected commands: Map<string, SymbolicCommand> = new Map();
   protected aliasMap: Map<string, string> = new Map();
   
+  // Commands pinned with --sticky, in the order they were pinned
+  protected modeStack: ParsedCommand[] = [];
+  
+  // Commands resolved for each call in progress, so a call resolves them once
+  private resolutions: WeakMap<MiddlewareContext, CommandResolution> = new WeakMap();
+  
+  // Hooks run around every call, in registration order
+  protected middleware: Middleware[] = [];
+  
+  // Names and aliases of the built-in commands
+  private coreCommands: Set<string>;
+  
+  // Provider identifier reported in results and telemetry
+  public abstract readonly provider: string;
+  
+  // Model requests are sent to
+  protected abstract model: string;
+  
   constructor(protected apiKey: string, protected options: any = {}) {
     this.registerCoreCommands();
+    this.coreCommands = new Set([...this.commands.keys(), ...this.aliasMap.keys()]);
   }
 
   protected registerCoreCommands() {
     this.registerCommand({
       name: 'think',
       description: 'Activate extended reasoning pathways',
+      aliases: ['reflect.trace'],
       transform: this.transformThink.bind(this)
     });
 
@@ -47,8 +384,19 @@ export abstract class ModelAdapter {
         {
           name: 'iterations',
           description: 'Number of refinement iterations',
+          type: 'range',
+          min: 1,
+          max: 10,
           required: false,
           default: 3
+        },
+        {
+          name: 'mode',
+          description: 'prompt simulates iterations in one response, execute runs each critique and revision as a separate call',
+          type: 'enum',
+          values: ['prompt', 'execute'],
+          required: false,
+          default: 'prompt'
         }
       ],
       transform: this.transformLoop.bind(this)
@@ -57,6 +405,18 @@ export abstract class ModelAdapter {
     this.registerCommand({
       name: 'reflect',
       description: 'Trigger meta-analysis of outputs',
+      aliases: ['reflect.core'],
+      parameters: [
+        {
+          name: 'depth',
+          description: 'Rounds of reflection, each examining the one before',
+          type: 'range',
+          min: 1,
+          max: 5,
+          required: false,
+          default: 1
+        }
+      ],
       transform: this.transformReflect.bind(this)
     });
 
@@ -69,16 +429,88 @@ export abstract class ModelAdapter {
     this.registerCommand({
       name: 'fork',
       description: 'Generate multiple alternative responses',
+      cacheable: false,
       parameters: [
         {
           name: 'count',
           description: 'Number of alternatives to generate',
+          type: 'range',
+          min: 1,
+          max: 10,
           required: false,
           default: 2
+        },
+        {
+          name: 'mode',
+          description: 'prompt asks for alternatives in one response, execute samples each one separately',
+          type: 'enum',
+          values: ['prompt', 'execute'],
+          required: false,
+          default: 'prompt'
         }
       ],
       transform: this.transformFork.bind(this)
     });
+
+    this.registerCommand({
+      name: 'format',
+      description: 'Control the output format of the response',
+      parameters: [
+        {
+          name: 'format',
+          description: 'Output format',
+          type: 'enum',
+          values: ['markdown', 'json', 'html', 'csv', 'text'],
+          required: false,
+          default: 'markdown'
+        },
+        {
+          name: 'schema',
+          description: 'JSON Schema the response must conform to (json format only)',
+          type: 'json',
+          required: false
+        },
+        {
+          name: 'retries',
+          description: 'Number of times to re-prompt with validation errors before failing',
+          type: 'range',
+          min: 0,
+          max: 5,
+          required: false
+        }
+      ],
+      transform: this.transformFormat.bind(this)
+    });
+
+    this.registerCommand({
+      name: 'expert',
+      description: 'Activate domain expertise persona',
+      parameters: [
+        {
+          name: 'domain',
+          description: 'Area of expertise',
+          type: 'string',
+          required: true
+        },
+        {
+          name: 'level',
+          description: 'Expertise level (1-5)',
+          type: 'range',
+          min: 1,
+          max: 5,
+          required: false,
+          default: 5
+        }
+      ],
+      transform: this.transformExpert.bind(this)
+    });
+  }
+
+  /**
+   * Whether a name is one of the built-in commands or their aliases
+   */
+  public isCoreCommand(name: string): boolean {
+    return this.coreCommands.has(name);
   }
 
   public registerCommand(command: SymbolicCommand) {
@@ -90,76 +522,1259 @@ export abstract class ModelAdapter {
     }
   }
 
-  public async generate(input: { prompt: string, systemPrompt?: string }): Promise<string> {
-    const { prompt, systemPrompt = '' } = input;
+  public async generate(input: GenerateInput): Promise<string> {
+    const result = await this.generateDetailed(input);
     
-    // Parse command from prompt
-    const { command, cleanPrompt, parameters } = this.parseCommand(prompt);
+    return result.text;
+  }
+
+  /**
+   * Generate a response with usage, finish reason, thinking content and
+   * the raw provider response alongside the text
+   */
+  public async generateDetailed(input: GenerateInput): Promise<GenerateResult> {
+    return this.runWithMiddleware(
+      input,
+      context => this.runGenerate(context),
+      (response, context) => this.toResult(response, context)
+    );
+  }
+
+  protected async runGenerate(context: MiddlewareContext): Promise<GenerateResult> {
+    const { commands, transformed } = await this.transformInput(context);
     
-    // Transform prompt based on command
-    const transformed = command 
-      ? await this.commands.get(command)?.transform(cleanPrompt, { 
-          systemPrompt, 
-          parameters,
-          options: this.options
-        })
-      : { systemPrompt, userPrompt: prompt };
+    // Executed forks sample each alternative with its own request
+    const fork = commands.find(command => command.name === 'fork');
+    if (fork?.parameters.mode === 'execute') {
+      const alternatives = await this.runFork(context);
+      return this.combineAlternatives(alternatives, context.commands || commands);
+    }
+    
+    // Executed loops run each critique and revision as a separate call
+    const loop = commands.find(command => command.name === 'loop');
+    if (loop?.parameters.mode === 'execute') {
+      return this.runLoop(context);
+    }
+    
+    const early = await this.applyTransform(context, commands, transformed);
+    if (early) {
+      return this.toResult(await this.completeResponse(early, context), context);
+    }
     
     // Execute the transformed prompt with the provider's API
-    return this.executePrompt(transformed);
+    let response = await this.executePrompt(context.transformed!, context);
+    
+    // Run requested tools and send their results back until the model answers
+    let toolResults: ToolResult[] | undefined;
+    if (context.input.runTools) {
+      ({ response, toolResults } = await this.runToolLoop(context.transformed!, response, context));
+    }
+    
+    // Validate and repair structured output when JSON was requested
+    const format = context.commands!.find(command => command.name === 'format');
+    if (format?.parameters.format === 'json') {
+      response = await this.enforceJsonFormat(context.transformed!, response, format.parameters, context);
+    }
+    
+    return { ...this.toResult(response, context), ...(toolResults ? { toolResults } : {}) };
+  }
+
+  /**
+   * Call the handlers of every tool the model requested and continue the
+   * conversation with their results, for up to maxToolRounds round-trips.
+   * A response that still requests tools after the last round is returned as-is.
+   */
+  protected async runToolLoop(
+    transformed: TransformedPrompt,
+    response: ProviderResponse,
+    context: MiddlewareContext
+  ): Promise<{ response: ProviderResponse, toolResults: ToolResult[] }> {
+    const maxRounds = context.input.maxToolRounds ?? this.options.maxToolRounds ?? 5;
+    const toolResults: ToolResult[] = [];
+    let toolTurns = transformed.toolTurns || [];
+    let current = response;
+    let usage = response.usage;
+    
+    for (let round = 0; round < maxRounds && current.toolCalls?.length; round++) {
+      const results = await Promise.all(current.toolCalls.map(call => this.runTool(call, transformed.tools || [])));
+      toolResults.push(...results);
+      
+      toolTurns = [
+        ...toolTurns,
+        { role: 'assistant', content: current.text, toolCalls: current.toolCalls },
+        ...results.map((result): ChatMessage => ({
+          role: 'tool',
+          content: result.content,
+          toolCallId: result.toolCallId,
+          ...(result.isError ? { isError: true } : {})
+        }))
+      ];
+      
+      current = await this.executePrompt({ ...transformed, toolTurns }, context);
+      usage = addUsage(usage, current.usage);
+    }
+    
+    return { response: { ...current, usage }, toolResults };
+  }
+
+  /**
+   * Run a single tool call. Unknown tools, invalid arguments and handler
+   * failures are reported back to the model as error results.
+   */
+  protected async runTool(call: ToolCall, tools: ToolDefinition[]): Promise<ToolResult> {
+    const fail = (message: string): ToolResult => ({ toolCallId: call.id, name: call.name, content: message, isError: true });
+    
+    const tool = tools.find(candidate => candidate.name === call.name);
+    if (!tool?.handler) {
+      return fail(`No handler is registered for tool "${call.name}"`);
+    }
+    
+    const errors = validateSchema(call.arguments, tool.parameters);
+    if (errors.length > 0) {
+      return fail(`Invalid arguments: ${errors.join('; ')}`);
+    }
+    
+    try {
+      const output = await tool.handler(call.arguments);
+      return {
+        toolCallId: call.id,
+        name: call.name,
+        content: typeof output === 'string' ? output : JSON.stringify(output ?? null)
+      };
+    } catch (error) {
+      return fail(error.message);
+    }
+  }
+
+  /**
+   * Add a middleware whose hooks run around every call
+   */
+  public use(middleware: Middleware) {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Run a call through the middleware pipeline. beforeParse hooks may modify
+   * the input or answer the call themselves, and onError hooks may recover
+   * from a failure with a response of their own.
+   */
+  protected async runWithMiddleware<T>(
+    input: GenerateInput,
+    run: (context: MiddlewareContext) => Promise<T>,
+    fromResponse: (response: ProviderResponse, context: MiddlewareContext) => T
+  ): Promise<T> {
+    const call = this.createCallSignal(input);
+    const context: MiddlewareContext = { provider: this.provider, input, signal: call.signal, state: {} };
+    
+    try {
+      const early = await this.runHooks('beforeParse', context);
+      if (early) {
+        return fromResponse(await this.completeResponse(early, context), context);
+      }
+      
+      const result = await run(context);
+      this.commitModes(context);
+      
+      return result;
+    } catch (error) {
+      return fromResponse(await this.recoverFromError(error, context), context);
+    } finally {
+      call.dispose();
+    }
+  }
+
+  /**
+   * Signal for one call from the input's `signal` and `timeoutMs`, falling
+   * back to the `timeoutMs` option
+   */
+  protected createCallSignal(input: GenerateInput) {
+    return createCallSignal(this.provider, input.signal, input.timeoutMs ?? this.options.timeoutMs);
+  }
+
+  /**
+   * Run one kind of hook in order, stopping at the first that returns a response
+   */
+  protected async runHooks(
+    stage: 'beforeParse' | 'afterTransform' | 'beforeRequest',
+    context: MiddlewareContext
+  ): Promise<ProviderResponse | undefined> {
+    for (const middleware of this.middleware) {
+      const response = await middleware[stage]?.(context);
+      if (response) {
+        return response;
+      }
+    }
+    
+    return undefined;
   }
 
-  protected parseCommand(prompt: string): { command: string | null, cleanPrompt: string, parameters: Record<string, any> } {
-    const commandRegex = /^\/([a-zA-Z0-9_]+)(?:\s+([^\n]*))?/;
-    const match = prompt.match(commandRegex);
+  /**
+   * Record the transformed prompt on the context and run afterTransform hooks
+   */
+  protected async applyTransform(
+    context: MiddlewareContext,
+    commands: ParsedCommand[],
+    transformed: TransformedPrompt
+  ): Promise<ProviderResponse | undefined> {
+    context.commands = commands;
+    context.transformed = transformed;
     
-    if (!match) {
+    return this.runHooks('afterTransform', context);
+  }
+
+  /**
+   * Run afterResponse hooks, which may replace the response
+   */
+  protected async completeResponse(response: ProviderResponse, context: MiddlewareContext): Promise<ProviderResponse> {
+    context.response = response;
+    for (const middleware of this.middleware) {
+      await middleware.afterResponse?.(context);
+    }
+    
+    return context.response;
+  }
+
+  /**
+   * Give onError hooks a chance to answer a failed call; rethrows when none does
+   */
+  protected async recoverFromError(error: Error, context: MiddlewareContext): Promise<ProviderResponse> {
+    for (const middleware of this.middleware) {
+      const response = await middleware.onError?.(error, context);
+      if (response) {
+        return response;
+      }
+    }
+    
+    throw error;
+  }
+
+  protected toResult(response: ProviderResponse, context: MiddlewareContext): GenerateResult {
+    return { ...response, provider: this.provider, commands: context.commands || [] };
+  }
+
+  /**
+   * Resolve commands and build the exact provider request for an input
+   * without sending it. Executed /fork and /loop modes show their first request.
+   */
+  public async explain(input: GenerateInput): Promise<ExplainResult> {
+    // Modes are only pinned or cleared by calls that succeed, so explaining a call leaves them as they are
+    const context: MiddlewareContext = { provider: this.provider, input, state: {} };
+    
+    // Middleware may modify the call; responses from hooks are ignored since nothing is sent
+    await this.runHooks('beforeParse', context);
+    
+    let { commands, transformed } = await this.transformInput(context);
+    
+    const executed = commands.find(command =>
+      (command.name === 'fork' || command.name === 'loop') && command.parameters.mode === 'execute'
+    );
+    if (executed) {
+      ({ commands, transformed } = await this.transformForExecution(context, executed.name, {}));
+    }
+    
+    await this.applyTransform(context, commands, transformed);
+    
+    ({ request: context.request, tokens: context.tokens } = this.prepareRequest(context.transformed!));
+    await this.runHooks('beforeRequest', context);
+    
+    const request = context.request!;
+    
+    return {
+      provider: this.provider,
+      commands: context.commands!,
+      transformed: context.transformed!,
+      request: { ...request, headers: this.redactHeaders(request.headers) },
+      tokens: context.tokens!
+    };
+  }
+
+  protected redactHeaders(headers: Record<string, string>): Record<string, string> {
+    if (!this.apiKey) {
+      return { ...headers };
+    }
+    
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, value.split(this.apiKey).join('[REDACTED]')])
+    );
+  }
+
+  /**
+   * Generate independent alternative responses. Each alternative is its own
+   * sample of the prompt rather than a labeled section of a single completion.
+   * @param input Generation input; a /fork command in the prompt supplies the default count
+   * @param count Number of alternatives, overriding /fork --count
+   */
+  public async fork(input: GenerateInput, count?: number): Promise<GenerateResult[]> {
+    return this.runWithMiddleware(
+      input,
+      context => this.runFork(context, count),
+      (response, context) => [this.toResult(response, context)]
+    );
+  }
+
+  protected async runFork(context: MiddlewareContext, count?: number): Promise<GenerateResult[]> {
+    const execution = await this.transformForExecution(
+      context,
+      'fork',
+      count !== undefined ? { count } : {}
+    );
+    
+    const early = await this.applyTransform(context, execution.commands, execution.transformed);
+    if (early) {
+      return [this.toResult(await this.completeResponse(early, context), context)];
+    }
+    
+    const responses = await this.executeSamples(context.transformed!, execution.parameters.count, context);
+    
+    return responses.map(response => this.toResult(response, context));
+  }
+
+  /**
+   * Refine a response with real round-trips: draft, then critique and revise
+   * for each iteration, stopping early once a critique finds nothing to fix.
+   * @param input Generation input; a /loop command in the prompt supplies the default iterations
+   * @param iterations Number of critique/revise cycles, overriding /loop --iterations
+   * @returns The final revision, with every draft and critique in `trace`
+   */
+  public async loop(input: GenerateInput, iterations?: number): Promise<GenerateResult> {
+    return this.runWithMiddleware(
+      input,
+      context => this.runLoop(context, iterations),
+      (response, context) => this.toResult(response, context)
+    );
+  }
+
+  protected async runLoop(context: MiddlewareContext, iterations?: number): Promise<GenerateResult> {
+    const execution = await this.transformForExecution(
+      context,
+      'loop',
+      iterations !== undefined ? { iterations } : {}
+    );
+    
+    const early = await this.applyTransform(context, execution.commands, execution.transformed);
+    if (early) {
+      return this.toResult(await this.completeResponse(early, context), context);
+    }
+    
+    const transformed = context.transformed!;
+    const { parameters } = execution;
+    const steps: RefinementStep[] = [];
+    let current = await this.executePrompt(transformed, context);
+    let usage = current.usage;
+    let stoppedEarly = false;
+    steps.push({ type: 'draft', iteration: 0, text: current.text, usage: current.usage });
+    
+    for (let iteration = 1; iteration <= parameters.iterations; iteration++) {
+      const conversation: ChatMessage[] = [
+        ...(transformed.history || []),
+        { role: 'user', content: userContent(transformed) },
+        { role: 'assistant', content: current.text }
+      ];
+      
+      const critique = await this.executePrompt({
+        ...transformed,
+        history: conversation,
+        userPrompt: CRITIQUE_PROMPT,
+        attachments: undefined
+      }, context);
+      usage = addUsage(usage, critique.usage);
+      steps.push({ type: 'critique', iteration, text: critique.text, usage: critique.usage });
+      
+      if (critique.text.trim().startsWith(NO_ISSUES_MARKER)) {
+        stoppedEarly = true;
+        break;
+      }
+      
+      const revision = await this.executePrompt({
+        ...transformed,
+        history: conversation,
+        userPrompt: `${REVISE_PROMPT}\n\nCritique:\n${critique.text}`,
+        attachments: undefined
+      }, context);
+      usage = addUsage(usage, revision.usage);
+      steps.push({ type: 'revision', iteration, text: revision.text, usage: revision.usage });
+      
+      current = revision;
+    }
+    
+    return {
+      ...this.toResult(current, context),
+      usage,
+      trace: { steps, stoppedEarly }
+    };
+  }
+
+  /**
+   * Transform a prompt for a command that is executed as multiple requests
+   * rather than simulated in one. Other commands in the chain still apply;
+   * from the executed command only its model parameters are kept, not its
+   * instructions to simulate the behavior in a single response.
+   */
+  protected async transformForExecution(
+    context: MiddlewareContext,
+    name: string,
+    overrides: Record<string, any>
+  ): Promise<{ transformed: TransformedPrompt, commands: ParsedCommand[], parameters: Record<string, any> }> {
+    const { input } = context;
+    const { prompt, systemPrompt, history, attachments } = this.normalizeInput(input);
+    this.checkContentSupport(history, attachments);
+    const { commands, cleanPrompt } = this.resolveCommands(prompt, context);
+    
+    const executed = commands.find(command => command.name === name);
+    const parameters = {
+      ...(executed?.parameters ?? this.withInputParameters({ name, parameters: this.parseParameters(name, '') }, input).parameters),
+      ...overrides,
+      mode: 'execute'
+    };
+    
+    const otherCommands = commands.filter(command => command.name !== name);
+    const base = otherCommands.length > 0
+      ? await this.applyCommandChain(otherCommands, cleanPrompt, systemPrompt)
+      : { systemPrompt, userPrompt: cleanPrompt };
+    
+    const commandTransform = await this.commands.get(name)!.transform(base.userPrompt, {
+      systemPrompt: base.systemPrompt,
+      parameters,
+      options: this.options,
+      provider: this.provider
+    });
+    
+    return {
+      transformed: {
+        ...base,
+        ...(attachments.length > 0 ? { attachments } : {}),
+        history,
+        ...this.toolFields(input),
+        modelParameters: {
+          ...base.modelParameters,
+          ...commandTransform.modelParameters
+        }
+      },
+      commands: [...otherCommands, { name, parameters }],
+      parameters
+    };
+  }
+
+  /**
+   * Run the same transformed prompt several times. Adapters whose provider can
+   * return multiple samples from a single request override this.
+   */
+  protected async executeSamples(
+    transformed: TransformedPrompt,
+    count: number,
+    context: MiddlewareContext
+  ): Promise<ProviderResponse[]> {
+    return Promise.all(
+      Array.from({ length: count }, () => this.executePrompt(transformed, context))
+    );
+  }
+
+  /**
+   * Build and send the request for a transformed prompt
+   */
+  protected async executePrompt(transformed: TransformedPrompt, context: MiddlewareContext): Promise<ProviderResponse> {
+    // Calls that make several requests stop before the next one once aborted
+    throwIfAborted(context.signal);
+    
+    const { request, tokens } = this.prepareRequest(transformed);
+    
+    return this.dispatch(request, context, tokens, transformed);
+  }
+
+  /**
+   * Build the request for a transformed prompt after checking that it fits
+   * the model's context window. max_tokens is clamped to the space left.
+   */
+  protected prepareRequest(transformed: TransformedPrompt): { request: ProviderRequest, tokens: TokenBudget } {
+    const request = this.buildRequest(transformed);
+    const prompt = countPromptTokens(transformed, this.tokenizer());
+    const contextWindow = this.contextWindow();
+    const requested: number | undefined = request.body.max_tokens;
+    
+    if (contextWindow === undefined) {
+      return { request, tokens: { prompt, maxTokens: requested } };
+    }
+    
+    const remaining = contextWindow - prompt.total;
+    const minOutputTokens = Math.min(requested ?? MIN_OUTPUT_TOKENS, MIN_OUTPUT_TOKENS);
+    if (remaining < minOutputTokens) {
+      throw new ContextWindowError(this.model, contextWindow, prompt, minOutputTokens);
+    }
+    
+    if (requested === undefined || requested <= remaining) {
+      return { request, tokens: { prompt, contextWindow, maxTokens: requested } };
+    }
+    
+    return {
+      request: { ...request, body: { ...request.body, max_tokens: remaining } },
+      tokens: { prompt, contextWindow, maxTokens: remaining }
+    };
+  }
+
+  /**
+   * Tokenizer used for pre-flight checks: the `tokenizer` option, or the
+   * built-in estimate for the provider
+   */
+  protected tokenizer(): Tokenizer {
+    return this.options.tokenizer || getTokenizer(this.provider);
+  }
+
+  /**
+   * Context window of the configured model in tokens, or undefined if unknown.
+   * Adapters look up their models; the `contextWindow` option overrides them.
+   */
+  protected contextWindow(): number | undefined {
+    return this.options.contextWindow;
+  }
+
+  /**
+   * Send a request through beforeRequest and afterResponse hooks. A
+   * beforeRequest hook may answer in place of the provider. Responses found
+   * in the `cache` option skip beforeRequest hooks and the provider.
+   */
+  protected async dispatch(
+    request: ProviderRequest,
+    context: MiddlewareContext,
+    tokens?: TokenBudget,
+    transformed?: TransformedPrompt
+  ): Promise<ProviderResponse> {
+    // Each request gets its own context so concurrent requests don't share request and response
+    const requestContext: MiddlewareContext = { ...context, request, tokens };
+    const response = await this.fetchResponse(requestContext, transformed);
+    
+    return this.completeResponse(response, requestContext);
+  }
+
+  /**
+   * Answer a request from a beforeRequest hook, the cache or the provider,
+   * caching what the provider returns. Running afterResponse hooks is left
+   * to the caller.
+   * @param requestContext Context holding the request to send
+   * @param transformed Prompt the request was built from; without it the cache is not used
+   */
+  protected async fetchResponse(requestContext: MiddlewareContext, transformed?: TransformedPrompt): Promise<ProviderResponse> {
+    // Hooks run before the lookup so they see every request, and the key reflects any changes they make to it
+    const early = await this.runHooks('beforeRequest', requestContext);
+    if (early) {
+      // Responses from hooks are not cached, since a hook may answer differently next time
+      return early;
+    }
+    
+    const key = transformed ? this.cacheKey(requestContext.request!, transformed, requestContext) : undefined;
+    const cached = key ? await this.cache()!.get(key) : undefined;
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+    
+    const response = await this.sendWithRetry(requestContext.request!, requestContext.signal);
+    if (key) {
+      await this.cache()!.set(key, response);
+    }
+    
+    return response;
+  }
+
+  /**
+   * Response cache from the `cache` option, if any
+   */
+  protected cache(): ResponseCache | undefined {
+    return this.options.cache;
+  }
+
+  /**
+   * Cache key of a request, or undefined when the call doesn't use the
+   * cache. `cache` on the input decides; otherwise every command applied
+   * must be cacheable. Streamed responses lack tool calls and the raw
+   * response, so they are keyed apart from the same request sent whole.
+   */
+  protected cacheKey(
+    request: ProviderRequest,
+    transformed: TransformedPrompt,
+    context: MiddlewareContext,
+    stream: boolean = false
+  ): string | undefined {
+    const enabled = context.input.cache
+      ?? (context.commands || []).every(command => this.commands.get(command.name)?.cacheable !== false);
+    // A cassette must see every request to record it
+    if (!this.cache() || this.cassette() || !enabled) {
+      return undefined;
+    }
+    
+    // Fields built from the transformed prompt are left out, since the prompt is hashed on its own
+    const { model, messages, system, tools, tool_choice, ...parameters } = request.body;
+    
+    return cacheKey(this.provider, model, transformed, stream ? { ...parameters, stream } : parameters);
+  }
+
+  /**
+   * Send a request, retrying rate limits, overloads, timeouts, network
+   * failures and server errors according to the `retry` option
+   */
+  protected async sendWithRetry(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
+    return withRetry(() => this.sendThroughCassette(request, signal), this.options.retry, signal);
+  }
+
+  /**
+   * Cassette from the `cassette` option or the UD_CASSETTE environment variable, if any
+   */
+  protected cassette(): Cassette | undefined {
+    return this.options.cassette ?? Cassette.fromEnv();
+  }
+
+  /**
+   * Send one attempt of a request, recording it or answering it from the cassette when one is in use
+   */
+  protected async sendThroughCassette(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
+    const cassette = this.cassette();
+    
+    return cassette
+      ? cassette.send(request, () => this.sendRequest(request, signal))
+      : this.sendRequest(request, signal);
+  }
+
+  protected streamThroughCassette(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    const cassette = this.cassette();
+    
+    return cassette
+      ? cassette.stream(request, () => this.sendStreamRequest(request, signal))
+      : this.sendStreamRequest(request, signal);
+  }
+
+  /**
+   * Stream a request with the same retries as sendWithRetry. Only failures
+   * before the first event are retried, since events can't be taken back.
+   */
+  protected async *streamWithRetry(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    for (let attempt = 0; ; attempt++) {
+      let started = false;
+      try {
+        for await (const event of this.streamThroughCassette(request, signal)) {
+          started = true;
+          yield event;
+        }
+        return;
+      } catch (error) {
+        // Errors caused by the abort itself, such as the connection closing, are reported as the abort
+        throwIfAborted(signal);
+        const delay = started ? undefined : retryDelay(error, attempt, this.options.retry);
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  protected combineAlternatives(alternatives: GenerateResult[], commands: ParsedCommand[]): GenerateResult {
+    const [first] = alternatives;
+    
+    return {
+      text: alternatives
+        .map((alternative, index) => `Alternative ${index + 1}:\n${alternative.text}`)
+        .join('\n\n'),
+      usage: alternatives.reduce<TokenUsage | undefined>((total, alternative) => addUsage(total, alternative.usage), undefined),
+      finishReason: first?.finishReason,
+      model: first?.model,
+      provider: this.provider,
+      commands,
+      alternatives,
+      raw: alternatives.map(alternative => alternative.raw)
+    };
+  }
+
+  /**
+   * Parse a JSON response and validate it against the requested schema,
+   * re-prompting the model with the validation errors until the output is
+   * valid or the retry budget is spent
+   */
+  protected async enforceJsonFormat(
+    transformed: TransformedPrompt,
+    response: ProviderResponse,
+    parameters: Record<string, any>,
+    context: MiddlewareContext
+  ): Promise<ProviderResponse> {
+    const maxRetries: number = parameters.retries ?? this.options.formatRetries ?? 2;
+    let current = response;
+    let usage = response.usage;
+    let attempt: TransformedPrompt = transformed;
+    
+    for (let retry = 0; ; retry++) {
+      const { parsed, errors } = this.validateJsonOutput(current.text, parameters.schema);
+      if (errors.length === 0) {
+        return { ...current, usage, parsed };
+      }
+      
+      if (retry >= maxRetries) {
+        throw new FormatValidationError(errors, current.text, retry + 1);
+      }
+      
+      // Continue the conversation so the model can see and correct its previous output
+      attempt = {
+        ...attempt,
+        history: [
+          ...(attempt.history || []),
+          { role: 'user', content: userContent(attempt) },
+          { role: 'assistant', content: current.text }
+        ],
+        attachments: undefined,
+        userPrompt: `Your previous response was not valid:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with only the corrected JSON, without any text outside of the JSON structure.`
+      };
+      
+      current = await this.executePrompt(attempt, context);
+      usage = addUsage(usage, current.usage);
+    }
+  }
+
+  protected validateJsonOutput(text: string, schema?: JSONSchema): { parsed?: any, errors: string[] } {
+    // Models frequently wrap JSON in a markdown code fence
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    const candidate = fenced ? fenced[1] : text.trim();
+    
+    let parsed: any;
+    try {
+      parsed = JSON.parse(candidate);
+    } catch (error) {
+      return { errors: [`response is not valid JSON: ${error.message}`] };
+    }
+    
+    return { parsed, errors: schema ? validateSchema(parsed, schema) : [] };
+  }
+
+  /**
+   * Stream a response as typed events, ending with a `done` event carrying usage
+   */
+  public async *generateStream(input: GenerateInput): AsyncGenerator<StreamEvent> {
+    const call = this.createCallSignal(input);
+    const context: MiddlewareContext = { provider: this.provider, input, signal: call.signal, state: {} };
+    let started = false;
+    
+    try {
+      let early = await this.runHooks('beforeParse', context);
+      if (!early) {
+        // Calls that make several requests or validate the whole response can't stream, so their result is sent as it completes
+        const { prompt } = this.normalizeInput(context.input);
+        if (needsCompleteResponse(this.resolveCommands(prompt, context).commands)) {
+          const result = await this.runGenerate(context);
+          this.commitModes(context);
+          yield* this.responseEvents(result);
+          return;
+        }
+        
+        const { commands, transformed } = await this.transformInput(context);
+        early = await this.applyTransform(context, commands, transformed);
+      }
+      if (early) {
+        const response = await this.completeResponse(early, context);
+        this.commitModes(context);
+        yield* this.responseEvents(response);
+        return;
+      }
+      
+      const requestContext: MiddlewareContext = { ...context, ...this.prepareRequest(context.transformed!) };
+      
+      const answered = await this.runHooks('beforeRequest', requestContext);
+      if (answered) {
+        const response = await this.completeResponse(answered, requestContext);
+        this.commitModes(context);
+        yield* this.responseEvents(response);
+        return;
+      }
+      
+      const key = this.cacheKey(requestContext.request!, context.transformed!, context, true);
+      const cached = key ? await this.cache()!.get(key) : undefined;
+      if (cached) {
+        const response = await this.completeResponse({ ...cached, cached: true }, requestContext);
+        this.commitModes(context);
+        yield* this.responseEvents(response);
+        return;
+      }
+      
+      // Events pass through as they arrive; afterResponse hooks see the assembled response
+      let text = '';
+      let thinking = '';
+      for await (const event of this.streamWithRetry(requestContext.request!, context.signal)) {
+        started = true;
+        if (event.type === 'text_delta') {
+          text += event.text;
+        } else if (event.type === 'thinking_delta') {
+          thinking += event.thinking;
+        } else {
+          const response: ProviderResponse = {
+            text,
+            thinking: thinking || undefined,
+            usage: event.usage,
+            finishReason: event.finishReason,
+            model: requestContext.request!.body.model,
+            raw: null
+          };
+          if (key) {
+            await this.cache()!.set(key, response);
+          }
+          await this.completeResponse(response, requestContext);
+          this.commitModes(context);
+        }
+        yield event;
+      }
+    } catch (error) {
+      // Events already yielded cannot be taken back, so onError hooks only run for a stream that never started
+      if (started) {
+        throw error;
+      }
+      yield* this.responseEvents(await this.recoverFromError(error, context));
+    } finally {
+      call.dispose();
+    }
+  }
+
+  protected async *responseEvents(response: ProviderResponse): AsyncGenerator<StreamEvent> {
+    if (response.thinking) {
+      yield { type: 'thinking_delta', thinking: response.thinking };
+    }
+    yield { type: 'text_delta', text: response.text };
+    yield { type: 'done', usage: response.usage, finishReason: response.finishReason };
+  }
+
+  protected async transformInput(context: MiddlewareContext): Promise<{ commands: ParsedCommand[], transformed: TransformedPrompt }> {
+    const { input } = context;
+    const { prompt, systemPrompt, history, attachments } = this.normalizeInput(input);
+    this.checkContentSupport(history, attachments);
+    
+    // Parse the chain of leading commands from the prompt, with any pinned modes
+    const { commands, cleanPrompt } = this.resolveCommands(prompt, context);
+    
+    // Transform prompt by composing each command's transformation in order
+    const transformed = commands.length > 0
+      ? await this.applyCommandChain(commands, cleanPrompt, systemPrompt)
+      : { systemPrompt, userPrompt: prompt };
+    
+    return {
+      commands,
+      transformed: {
+        ...transformed,
+        ...(attachments.length > 0 ? { attachments } : {}),
+        history,
+        ...this.toolFields(input)
+      }
+    };
+  }
+
+  // Tools are passed to the provider as given; commands don't change them
+  protected toolFields(input: GenerateInput): Pick<TransformedPrompt, 'tools' | 'toolChoice'> {
+    return {
+      ...(input.tools?.length ? { tools: input.tools } : {}),
+      ...(input.toolChoice ? { toolChoice: input.toolChoice } : {})
+    };
+  }
+
+  /**
+   * Parse the command chain of a call's prompt, with the modes it leaves
+   * pinned: commands with --sticky are pinned and /collapse clears every
+   * pinned mode. Pinned modes run before the prompt's own commands, which
+   * take precedence. The result is reused for the rest of the call.
+   */
+  protected resolveCommands(prompt: string, context: MiddlewareContext): CommandResolution {
+    const resolved = this.resolutions.get(context);
+    if (resolved) {
+      return resolved;
+    }
+    
+    const chain = this.parseCommandChain(prompt);
+    const commands = chain.commands.map(command => this.withInputParameters(command, context.input));
+    
+    let modes = this.modeStack;
+    commands.forEach(command => {
+      if (command.name === 'collapse') {
+        modes = [];
+      } else if (command.sticky) {
+        modes = [...modes.filter(mode => mode.name !== command.name), command];
+      }
+    });
+    
+    const pinned = modes.filter(mode => !commands.some(command => command.name === mode.name));
+    const resolution = { commands: [...pinned, ...commands], cleanPrompt: chain.cleanPrompt, modes };
+    this.resolutions.set(context, resolution);
+    
+    return resolution;
+  }
+
+  /**
+   * Pin or clear the modes a call asked for, once it has succeeded
+   */
+  protected commitModes(context: MiddlewareContext): void {
+    const resolution = this.resolutions.get(context);
+    if (resolution) {
+      this.modeStack = resolution.modes;
+    }
+  }
+
+  /**
+   * Add the input's `parameters` for a command to the ones parsed from the
+   * prompt, then check that every required parameter has a value. Input
+   * values need no quoting: JSON and untyped values such as schemas are used
+   * as given, others are validated like flags.
+   */
+  protected withInputParameters(command: ParsedCommand, input: GenerateInput): ParsedCommand {
+    const declared = this.commands.get(command.name)?.parameters || [];
+    const parameters = { ...command.parameters };
+    
+    Object.entries(input.parameters?.[command.name] || {}).forEach(([name, value]) => {
+      const param = declared.find(candidate => candidate.name === name);
+      if (!param) {
+        throw new CommandParameterError(command.name, name, value, 'unknown parameter');
+      }
+      parameters[name] = param.type === 'json' || !param.type ? value : this.coerceParameter(command.name, param, String(value));
+    });
+    
+    declared.forEach(param => {
+      if (param.required && parameters[param.name] === undefined) {
+        throw new CommandParameterError(command.name, param.name, undefined, 'parameter is required');
+      }
+    });
+    
+    return { ...command, parameters };
+  }
+
+  /**
+   * Commands currently pinned with --sticky, in the order they were pinned
+   */
+  public getModeStack(): ParsedCommand[] {
+    return this.modeStack.map(mode => ({ ...mode, parameters: { ...mode.parameters } }));
+  }
+
+  /**
+   * Replace the pinned modes, e.g. to carry them over from another adapter
+   */
+  public setModeStack(modes: ParsedCommand[]): void {
+    this.modeStack = modes.map(mode => ({ ...mode, parameters: { ...mode.parameters } }));
+  }
+
+  /**
+   * Split generation input into the latest user prompt, the combined system
+   * prompt and the earlier conversation turns. A `prompt` given alongside
+   * `messages` is treated as a new user turn. Images and documents in the
+   * latest turn are returned separately from its text, which carries the commands.
+   */
+  public normalizeInput(input: GenerateInput): { prompt: string, systemPrompt: string, history: ChatMessage[], attachments: ContentPart[] } {
+    const { prompt, systemPrompt = '', messages } = input;
+    
+    if (!messages || messages.length === 0) {
+      if (prompt === undefined) {
+        throw new Error('Either prompt or messages must be provided');
+      }
+      return { prompt: contentText(prompt), systemPrompt, history: [], attachments: mediaParts(prompt) };
+    }
+    
+    const allMessages: ChatMessage[] = prompt !== undefined
+      ? [...messages, { role: 'user', content: prompt }]
+      : messages;
+    
+    const systemMessages = allMessages
+      .filter(message => message.role === 'system')
+      .map(message => contentText(message.content));
+    const turns = allMessages.filter(message => message.role !== 'system');
+    const latest = turns[turns.length - 1];
+    
+    if (!latest || latest.role !== 'user') {
+      throw new Error('The last message must be a user message');
+    }
+    
+    // Commands in earlier turns were already applied, so only their text is kept
+    const history = turns.slice(0, -1).map(message => message.role === 'user'
+      ? { ...message, content: this.stripCommands(message.content) }
+      : message);
+    
+    return {
+      prompt: contentText(latest.content),
+      systemPrompt: [systemPrompt, ...systemMessages].filter(Boolean).join('\n\n'),
+      history,
+      attachments: mediaParts(latest.content)
+    };
+  }
+
+  // Commands lead the first text part of a multimodal turn
+  protected stripCommands(content: MessageContent): MessageContent {
+    if (typeof content === 'string') {
+      return this.parseCommandChain(content).cleanPrompt;
+    }
+    
+    const first = content.findIndex(part => part.type === 'text');
+    return content.map((part, index) => index === first && part.type === 'text'
+      ? { ...part, text: this.parseCommandChain(part.text).cleanPrompt }
+      : part);
+  }
+
+  /**
+   * Reject images and documents the model cannot accept before anything is sent
+   */
+  protected checkContentSupport(history: ChatMessage[], attachments: ContentPart[]): void {
+    const parts = [
+      ...history.flatMap(message => mediaParts(message.content)),
+      ...attachments
+    ];
+    
+    parts.forEach(part => {
+      if (part.type !== 'text' && !this.supportsContent(part.type)) {
+        throw new UnsupportedContentError(this.provider, this.model, part.type);
+      }
+    });
+  }
+
+  /**
+   * Parse all leading symbolic commands from a prompt, e.g.
+   * `/think /reflect --depth=2 Explain X` yields `think` and `reflect`
+   * with `{ depth: 2 }`.
+   * Parsing stops at the first token that is not a registered command.
+   */
+  public parseCommandChain(prompt: string): { commands: ParsedCommand[], cleanPrompt: string } {
+    const commands: ParsedCommand[] = [];
+    let remaining = prompt.trimStart();
+    
+    while (true) {
+      const parsed = this.parseCommand(remaining);
+      if (!parsed.command) {
+        break;
+      }
+      
+      commands.push({
+        name: parsed.command,
+        parameters: parsed.parameters,
+        ...(parsed.sticky ? { sticky: true } : {})
+      });
+      remaining = parsed.cleanPrompt;
+    }
+    
+    return {
+      commands,
+      cleanPrompt: commands.length > 0 ? remaining : prompt
+    };
+  }
+
+  /**
+   * Apply a chain of commands sequentially. Each transformation receives the
+   * user prompt and system prompt produced by the previous one, and model
+   * parameters are merged with later commands taking precedence.
+   */
+  protected async applyCommandChain(
+    commands: ParsedCommand[],
+    prompt: string,
+    systemPrompt: string
+  ): Promise<TransformedPrompt> {
+    let current: TransformedPrompt = { systemPrompt, userPrompt: prompt };
+    
+    for (const { name, parameters } of commands) {
+      const transformation = await this.commands.get(name)!.transform(current.userPrompt, {
+        systemPrompt: current.systemPrompt,
+        parameters,
+        options: this.options,
+        provider: this.provider
+      });
+      
+      current = {
+        systemPrompt: transformation.systemPrompt ?? current.systemPrompt,
+        userPrompt: transformation.userPrompt,
+        modelParameters: {
+          ...current.modelParameters,
+          ...transformation.modelParameters
+        }
+      };
+    }
+    
+    return current;
+  }
+
+  /**
+   * Parse a single leading command. Accepted forms are `/name`, dotted
+   * namespaces such as `/reflect.core`, glyph aliases such as `/🧠`, each
+   * followed by --parameters, and `.p/reflect/core{depth=2}` with parameters
+   * in braces.
+   */
+  protected parseCommand(prompt: string): { command: string | null, cleanPrompt: string, parameters: Record<string, any>, sticky?: boolean } {
+    // A command is followed only by its --parameters; anything else is prompt text
+    const commandRegex = /^\/([a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)*|[^\sa-zA-Z0-9_\/\-]+)((?:[ \t]+--[a-zA-Z0-9_]+(?:=(?:"[^"]*"|'[^']*'|[^\s]+))?)*)(?=\s|$)/u;
+    const namespaceRegex = /^\.p\/([a-zA-Z0-9_]+(?:\/[a-zA-Z0-9_]+)*)\{([^}]*)\}(?=\s|$)/;
+    
+    let fullMatch: string;
+    let command: string;
+    let braceParams: string | undefined;
+    let rest = '';
+    
+    const namespaceMatch = prompt.match(namespaceRegex);
+    const match = namespaceMatch ? null : prompt.match(commandRegex);
+    
+    if (namespaceMatch) {
+      fullMatch = namespaceMatch[0];
+      command = namespaceMatch[1].replace(/\//g, '.');
+      braceParams = namespaceMatch[2];
+    } else if (match) {
+      [fullMatch, command, rest] = match;
+    } else {
       return { command: null, cleanPrompt: prompt, parameters: {} };
     }
     
-    const [fullMatch, command, rest] = match;
-    const commandName = this.aliasMap.get(command) || command;
+    // Glyphs resolve through the built-in registry unless registered as an alias
+    const canonical = resolveGlyph(command) || command;
+    const commandName = this.aliasMap.get(command) || this.aliasMap.get(canonical) || canonical;
     
     if (!this.commands.has(commandName)) {
       return { command: null, cleanPrompt: prompt, parameters: {} };
     }
     
+    let paramString = braceParams !== undefined ? this.braceParametersToFlags(commandName, braceParams) : rest || '';
+    
+    // --sticky is accepted by every command, so it is handled before the declared parameters
+    let sticky = false;
+    const stickyMatch = paramString.match(/(?:^|[ \t]+)--sticky(?:=(\S+))?(?=\s|$)/);
+    if (stickyMatch) {
+      sticky = this.coerceParameter(commandName, STICKY_PARAMETER, stickyMatch[1]);
+      paramString = paramString.replace(stickyMatch[0], '');
+    }
+    
     // Parse parameters if any
-    const parameters = this.parseParameters(commandName, rest || '');
-    const cleanPrompt = prompt.replace(fullMatch, '').trim();
+    const parameters = this.parseParameters(commandName, paramString);
+    const cleanPrompt = prompt.slice(fullMatch.length).trim();
     
-    return { command: commandName, cleanPrompt, parameters };
+    return { command: commandName, cleanPrompt, parameters, sticky };
   }
 
-  protected parseParameters(command: string, paramString: string): Record<string, any> {
-    // Default simple implementation - override in specific adapters as needed
-    const params: Record<string, any> = {};
-    const cmd = this.commands.get(command);
+  /**
+   * Rewrite `{depth=2, format="structured"}` style parameters (the braces
+   * already removed) as `--depth=2 --format="structured"`. Runtime syntax
+   * carries parameters for every vendor, so ones the command doesn't declare
+   * are dropped rather than rejected.
+   */
+  protected braceParametersToFlags(command: string, braceParams: string): string {
+    const declared = (this.commands.get(command)?.parameters || []).map(param => param.name);
+    const pairRegex = /([a-zA-Z0-9_]+)(?:\s*[=:]\s*("[^"]*"|'[^']*'|[^,\s]+))?/y;
+    const flags: string[] = [];
+    let position = 0;
     
-    // If no parameters defined for command, return empty object
-    if (!cmd?.parameters || cmd.parameters.length === 0) {
-      return params;
+    while (position < braceParams.length) {
+      const separator = braceParams.slice(position).match(/^[\s,]+/);
+      if (separator) {
+        position += separator[0].length;
+        continue;
+      }
+      
+      pairRegex.lastIndex = position;
+      const pair = pairRegex.exec(braceParams);
+      if (!pair) {
+        const token = braceParams.slice(position).split(/[\s,]/)[0];
+        throw new CommandParameterError(command, token, undefined, 'expected name=value');
+      }
+      
+      const [fullPair, name, value] = pair;
+      if (declared.includes(name) || name === STICKY_PARAMETER.name) {
+        flags.push(value !== undefined ? `--${name}=${value}` : `--${name}`);
+      }
+      position += fullPair.length;
     }
     
+    return flags.join(' ');
+  }
+
+  protected parseParameters(command: string, paramString: string): Record<string, any> {
+    const params: Record<string, any> = {};
+    const declared = this.commands.get(command)?.parameters || [];
+    
     // Set defaults
-    cmd.parameters.forEach(param => {
+    declared.forEach(param => {
       if (param.default !== undefined) {
         params[param.name] = param.default;
       }
     });
     
-    // Simple parsing - can be enhanced for more complex parameter syntax
-    const paramRegex = /--([a-zA-Z0-9_]+)(?:=([^\s]+))?/g;
+    // Values may be bare (--depth=2), quoted (--domain="distributed systems") or omitted for flags
+    const paramRegex = /--([a-zA-Z0-9_]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\s]+)))?/g;
     let match;
     
     while ((match = paramRegex.exec(paramString)) !== null) {
-      const [_, paramName, paramValue = true] = match;
-      params[paramName] = paramValue;
+      const [_, paramName, doubleQuoted, singleQuoted, bare] = match;
+      const param = declared.find(p => p.name === paramName);
+      
+      if (!param) {
+        throw new CommandParameterError(command, paramName, bare, 'unknown parameter');
+      }
+      
+      const rawValue = doubleQuoted ?? singleQuoted ?? bare;
+      params[paramName] = this.coerceParameter(command, param, rawValue);
     }
     
+    // Required parameters are checked once the input's parameters are added, since they may supply them
     return params;
   }
 
+  /**
+   * Convert a raw parameter value to its declared type, validating constraints.
+   * A value of undefined means the parameter was given as a bare flag.
+   */
+  protected coerceParameter(command: string, param: CommandParameter, rawValue: string | undefined): any {
+    const fail = (reason: string): never => {
+      throw new CommandParameterError(command, param.name, rawValue, reason);
+    };
+    
+    switch (param.type) {
+      case 'boolean': {
+        if (rawValue === undefined) return true;
+        const normalized = rawValue.toLowerCase();
+        if (['true', 'yes', '1', 'on'].includes(normalized)) return true;
+        if (['false', 'no', '0', 'off'].includes(normalized)) return false;
+        return fail(`expected a boolean but received "${rawValue}"`);
+      }
+      
+      case 'number':
+      case 'range': {
+        if (rawValue === undefined || rawValue.trim() === '') {
+          return fail('expected a number');
+        }
+        const value = Number(rawValue);
+        if (Number.isNaN(value)) {
+          return fail(`expected a number but received "${rawValue}"`);
+        }
+        if (param.type === 'range' && !Number.isInteger(value)) {
+          return fail(`expected a whole number but received "${rawValue}"`);
+        }
+        if (param.min !== undefined && value < param.min) {
+          return fail(`must be at least ${param.min}`);
+        }
+        if (param.max !== undefined && value > param.max) {
+          return fail(`must be at most ${param.max}`);
+        }
+        return value;
+      }
+      
+      case 'enum': {
+        const allowed = param.values || [];
+        if (rawValue === undefined || !allowed.includes(rawValue)) {
+          return fail(`expected one of ${allowed.join(', ')}`);
+        }
+        return rawValue;
+      }
+      
+      case 'string':
+        if (rawValue === undefined) {
+          return fail('expected a value');
+        }
+        return rawValue;
+      
+      case 'json':
+        if (rawValue === undefined) {
+          return fail('expected a JSON value');
+        }
+        try {
+          return JSON.parse(rawValue);
+        } catch (error) {
+          return fail(`expected valid JSON: ${error.message}`);
+        }
+      
+      default:
+        // Untyped parameters keep the raw string, or true for bare flags
+        return rawValue ?? true;
+    }
+  }
+
   /* 
    * These transformation methods must be implemented by specific adapters
    * to account for platform-specific behavior
@@ -170,7 +1785,45 @@ export abstract class ModelAdapter {
   protected abstract transformReflect(prompt: string, options: any): Promise<TransformedPrompt>;
   protected abstract transformCollapse(prompt: string, options: any): Promise<TransformedPrompt>;
   protected abstract transformFork(prompt: string, options: any): Promise<TransformedPrompt>;
+  protected abstract transformFormat(prompt: string, options: any): Promise<TransformedPrompt>;
+  protected abstract transformExpert(prompt: string, options: any): Promise<TransformedPrompt>;
+  
+  // Whether the configured model accepts images or documents
+  protected abstract supportsContent(type: MediaType): boolean;
+  
+  // Method to build the HTTP request for the transformed prompt
+  protected abstract buildRequest(transformed: TransformedPrompt): ProviderRequest;
   
-  // Method to execute the transformed prompt with the provider's API
-  protected abstract executePrompt(transformed: TransformedPrompt): Promise<string>;
+  // Method to send a request to the provider's API
+  protected abstract sendRequest(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse>;
+  
+  // Method to send a request to the provider's API as a stream
+  protected abstract sendStreamRequest(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent>;
+}
+
+/**
+ * Combine token usage from multiple provider calls
+ */
+export function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) {
+    return a || b;
+  }
+  
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+// Executed /fork and /loop send several requests and JSON output is validated as a whole
+function needsCompleteResponse(commands: ParsedCommand[]): boolean {
+  return commands.some(({ name, parameters }) =>
+    ((name === 'fork' || name === 'loop') && parameters.mode === 'execute') ||
+    (name === 'format' && parameters.format === 'json')
+  );
 }
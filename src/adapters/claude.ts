@@ -1,19 +1,59 @@
 // universal-developer/src/adapters/claude.ts
 
-import { ModelAdapter, TransformedPrompt } from './base';
+import { ModelAdapter, MediaType, TransformedPrompt, ProviderRequest, ProviderResponse, FinishReason, StreamEvent, TokenUsage } from './base';
+import { parseServerSentEvents } from './sse';
+import { parseAnthropicToolCalls, toAnthropicMessages, toAnthropicToolChoice, toAnthropicTools } from './tools';
+import { userContent } from './content';
+import { createProviderError, toProviderError } from './errors';
+import { RetryOptions } from './retry';
+import { Tokenizer } from '../tokenizer';
+import { ResponseCache } from '../cache';
+import { Cassette } from '../cassette';
 import axios from 'axios';
 
+// Context windows by model prefix; the first match wins
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['claude-instant', 100000],
+  ['claude-2.0', 100000],
+  ['claude-', 200000]
+];
+
+// Persona wording for /expert levels 1 to 5
+const EXPERTISE_LEVELS = [
+  'with a foundational understanding',
+  'with working knowledge',
+  'with solid professional experience',
+  'with advanced expertise',
+  'with deep, authoritative mastery'
+];
+
+const EXPERTISE_GUIDANCE = [
+  'Explain concepts in plain language, define any terminology you use, and note where a specialist should be consulted.',
+  'Use common terminology with brief explanations and focus on established, practical approaches.',
+  'Use standard terminology and frameworks, and point out the usual trade-offs and pitfalls.',
+  'Use precise terminology, discuss trade-offs and edge cases, and reference relevant frameworks without over-explaining basics.',
+  'Use the terminology, frameworks, and approaches expected of a leading practitioner, addressing subtleties, open questions, and the current state of the art.'
+];
+
 interface ClaudeOptions {
   apiVersion?: string;
   maxTokens?: number;
   temperature?: number;
   baseURL?: string;
   model?: string;
+  vision?: boolean; // Whether the model accepts images and documents, for models not recognized by name
+  contextWindow?: number; // Context window in tokens, for models not recognized by name
+  tokenizer?: Tokenizer; // Exact tokenizer to use instead of the built-in estimate
+  retry?: RetryOptions | false; // Backoff for rate limits, overloads and transient failures
+  cache?: ResponseCache; // Store for responses to repeated identical requests
+  timeoutMs?: number; // Default time allowed for each call, including retries
+  cassette?: Cassette; // Records requests and responses, or replays them offline
 }
 
 export class ClaudeAdapter extends ModelAdapter {
+  public readonly provider = 'anthropic';
   private baseURL: string;
-  private model: string;
+  protected model: string;
   private maxTokens: number;
   private temperature: number;
 
@@ -81,7 +121,9 @@ Show all iterations in your response, clearly labeled.`;
   }
 
   protected async transformReflect(prompt: string, options: any): Promise<TransformedPrompt> {
-    const systemPrompt = `${options.systemPrompt || ''}
+    const depth = options.parameters.depth || 1;
+    
+    let systemPrompt = `${options.systemPrompt || ''}
 For this response, I'd like you to engage in two distinct phases:
 
 1. First, respond to the user's query directly.
@@ -93,6 +135,11 @@ For this response, I'd like you to engage in two distinct phases:
 
 Clearly separate these two phases in your response.`;
 
+    if (depth > 1) {
+      systemPrompt += `
+After your first reflection, reflect on that reflection in the same way, continuing for ${depth} rounds of reflection in total. Label each round.`;
+    }
+
     return {
       systemPrompt,
       userPrompt: prompt,
@@ -132,45 +179,206 @@ Please provide ${count} distinct alternative responses to this prompt. These alt
     };
   }
 
-  protected async executePrompt(transformed: TransformedPrompt): Promise<string> {
+  protected async transformFormat(prompt: string, options: any): Promise<TransformedPrompt> {
+    // Claude has no native format mode, so formatting is controlled through the system prompt
+    const format = options.parameters.format || 'markdown';
+    const instructions: Record<string, string> = {
+      json: 'Please format your entire response as a valid JSON object. Do not include any explanatory text outside of the JSON structure.',
+      html: 'Please format your entire response as well-formed HTML. Do not include any explanatory text outside of the HTML markup.',
+      csv: 'Please format your entire response as CSV with a header row. Do not include any explanatory text outside of the CSV data.',
+      text: 'Please respond in plain text, without markdown or any other markup.',
+      markdown: 'Please format your response using markdown.'
+    };
+
+    let systemPrompt = `${options.systemPrompt || ''}
+${instructions[format]}`;
+
+    if (format === 'json' && options.parameters.schema) {
+      systemPrompt += `
+The JSON object must conform to this JSON Schema:
+${JSON.stringify(options.parameters.schema, null, 2)}`;
+    }
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature,
+        max_tokens: this.maxTokens
+      }
+    };
+  }
+
+  protected async transformExpert(prompt: string, options: any): Promise<TransformedPrompt> {
+    const { domain, level = 5 } = options.parameters;
+
+    const systemPrompt = `${options.systemPrompt || ''}
+Please respond as someone ${EXPERTISE_LEVELS[level - 1]} in ${domain} (level ${level}/5). ${EXPERTISE_GUIDANCE[level - 1]}`;
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.1)
+      }
+    };
+  }
+
+  protected async sendRequest(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
     try {
-      const messages = [
-        // System message if provided
-        ...(transformed.systemPrompt ? [{
-          role: 'system',
-          content: transformed.systemPrompt
-        }] : []),
-        // User message
-        {
-          role: 'user',
-          content: transformed.userPrompt
-        }
-      ];
-
-      const response = await axios.post(
-        `${this.baseURL}/v1/messages`,
-        {
-          model: this.model,
-          messages,
-          max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
-          temperature: transformed.modelParameters?.temperature || this.temperature,
-          ...('enable_thinking' in (transformed.modelParameters || {}) ? 
-              { enable_thinking: transformed.modelParameters?.enable_thinking } : 
-              {})
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': this.apiKey,
-            'anthropic-version': '2023-06-01'
-          }
-        }
-      );
+      const response = await axios.post(request.url, request.body, { headers: request.headers, signal });
+
+      return this.parseResponse(response.data, response.headers);
+    } catch (error) {
+      throw await toProviderError(error, this.provider, 'Failed to execute Claude prompt');
+    }
+  }
 
-      return response.data.content[0].text;
+  protected async *sendStreamRequest(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    let response;
+    try {
+      response = await axios.post(
+        request.url,
+        { ...request.body, stream: true },
+        { headers: request.headers, responseType: 'stream', signal }
+      );
     } catch (error) {
-      console.error('Error executing Claude prompt:', error);
-      throw new Error(`Failed to execute Claude prompt: ${error.message}`);
+      throw await toProviderError(error, this.provider, 'Failed to stream Claude prompt');
+    }
+
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let finishReason: FinishReason | undefined;
+
+    for await (const { data } of parseServerSentEvents(response.data)) {
+      const payload = JSON.parse(data);
+
+      switch (payload.type) {
+        case 'message_start':
+          usage.inputTokens = payload.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta') {
+            yield { type: 'text_delta', text: payload.delta.text };
+          } else if (payload.delta?.type === 'thinking_delta') {
+            yield { type: 'thinking_delta', thinking: payload.delta.thinking };
+          }
+          break;
+        case 'message_delta':
+          usage.outputTokens = payload.usage?.output_tokens || usage.outputTokens;
+          finishReason = payload.delta?.stop_reason
+            ? this.normalizeFinishReason(payload.delta.stop_reason)
+            : finishReason;
+          break;
+        case 'error':
+          throw createProviderError(undefined, payload, { provider: this.provider }, 'Claude stream error');
+      }
+    }
+
+    usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    yield { type: 'done', usage, finishReason };
+  }
+
+  protected buildRequest(transformed: TransformedPrompt): ProviderRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseURL}/v1/messages`,
+      headers: this.buildHeaders(),
+      body: this.buildRequestBody(transformed)
+    };
+  }
+
+  protected supportsContent(type: MediaType): boolean {
+    if (this.options.vision !== undefined) {
+      return this.options.vision;
+    }
+
+    // Images arrived with Claude 3 and PDF documents with Claude 3.5
+    if (/^claude-(2|instant)/.test(this.model)) {
+      return false;
     }
+    return type === 'image' || !/^claude-3-(opus|sonnet|haiku)/.test(this.model);
+  }
+
+  protected contextWindow(): number | undefined {
+    return super.contextWindow() ?? CONTEXT_WINDOWS.find(([prefix]) => this.model.startsWith(prefix))?.[1];
+  }
+
+  private parseResponse(data: any, headers: Record<string, any> = {}): ProviderResponse {
+    const blocks: any[] = data.content || [];
+    const text = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+    const thinking = blocks
+      .filter(block => block.type === 'thinking')
+      .map(block => block.thinking)
+      .join('');
+
+    return {
+      text,
+      thinking: thinking || undefined,
+      usage: data.usage ? {
+        inputTokens: data.usage.input_tokens || 0,
+        outputTokens: data.usage.output_tokens || 0,
+        totalTokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0)
+      } : undefined,
+      finishReason: this.normalizeFinishReason(data.stop_reason),
+      model: data.model || this.model,
+      requestId: headers['request-id'] || data.id,
+      toolCalls: parseAnthropicToolCalls(blocks),
+      raw: data
+    };
+  }
+
+  private normalizeFinishReason(reason: string | undefined): FinishReason {
+    switch (reason) {
+      case 'end_turn':
+      case 'stop_sequence':
+        return 'stop';
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_use';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private buildRequestBody(transformed: TransformedPrompt): Record<string, any> {
+    const messages = toAnthropicMessages([
+      // Earlier conversation turns
+      ...(transformed.history || []),
+      // User message
+      {
+        role: 'user',
+        content: userContent(transformed)
+      },
+      // Tool calls and results that followed it
+      ...(transformed.toolTurns || [])
+    ]);
+
+    return {
+      model: this.model,
+      // Anthropic takes the system prompt as a top-level field, not a message
+      ...(transformed.systemPrompt ? { system: transformed.systemPrompt } : {}),
+      messages,
+      ...(transformed.tools ? { tools: toAnthropicTools(transformed.tools) } : {}),
+      ...(transformed.toolChoice ? { tool_choice: toAnthropicToolChoice(transformed.toolChoice) } : {}),
+      max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
+      temperature: transformed.modelParameters?.temperature || this.temperature,
+      ...('enable_thinking' in (transformed.modelParameters || {}) ? 
+          { enable_thinking: transformed.modelParameters?.enable_thinking } : 
+          {})
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01'
+    };
   }
 }
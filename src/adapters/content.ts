@@ -0,0 +1,141 @@
+// universal-developer/src/adapters/content.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContentPart, MediaSource, MessageContent, TransformedPrompt } from './base';
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain'
+};
+
+/**
+ * Text of a message, with the text parts of multimodal content joined by newlines
+ */
+export function contentText(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Images and documents of a message, in order
+ */
+export function mediaParts(content: MessageContent): ContentPart[] {
+  return typeof content === 'string' ? [] : content.filter(part => part.type !== 'text');
+}
+
+/**
+ * Content of the user turn for a transformed prompt. Attachments come before
+ * the text, which is where providers recommend placing them.
+ */
+export function userContent(transformed: TransformedPrompt): MessageContent {
+  if (!transformed.attachments?.length) {
+    return transformed.userPrompt;
+  }
+
+  return [...transformed.attachments, { type: 'text', text: transformed.userPrompt }];
+}
+
+/**
+ * Resolve a media source to base64 data or a URL, reading files from disk
+ */
+export function loadMedia(source: MediaSource): { mediaType?: string, data?: string, url?: string } {
+  switch (source.type) {
+    case 'file': {
+      const mediaType = source.mediaType || MEDIA_TYPES[path.extname(source.path).toLowerCase()];
+      if (!mediaType) {
+        throw new Error(`Cannot determine the media type of ${source.path}; set mediaType on the source`);
+      }
+      return { mediaType, data: fs.readFileSync(source.path).toString('base64') };
+    }
+    case 'base64':
+      return { mediaType: source.mediaType, data: source.data };
+    case 'url':
+      return { mediaType: source.mediaType, url: source.url };
+  }
+}
+
+/**
+ * Message content as Anthropic content blocks; plain text is sent as-is
+ */
+export function toAnthropicContent(content: MessageContent): any {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map(part => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+
+    const media = loadMedia(part.source);
+    if (part.type === 'image') {
+      return {
+        type: 'image',
+        source: media.url
+          ? { type: 'url', url: media.url }
+          : { type: 'base64', media_type: media.mediaType, data: media.data }
+      };
+    }
+
+    // Plain text documents are sent as text sources, everything else as PDF
+    let source: any;
+    if (media.url) {
+      source = { type: 'url', url: media.url };
+    } else if (media.mediaType === 'text/plain') {
+      source = { type: 'text', media_type: 'text/plain', data: Buffer.from(media.data!, 'base64').toString('utf-8') };
+    } else {
+      source = { type: 'base64', media_type: media.mediaType || 'application/pdf', data: media.data };
+    }
+
+    return { type: 'document', source, ...(part.name ? { title: part.name } : {}) };
+  });
+}
+
+/**
+ * Message content as OpenAI content parts; plain text is sent as-is. Qwen's
+ * OpenAI-compatible endpoint accepts the same format for images.
+ */
+export function toOpenAIContent(content: MessageContent): any {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map(part => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+
+    const media = loadMedia(part.source);
+    if (part.type === 'image') {
+      return { type: 'image_url', image_url: { url: media.url || `data:${media.mediaType};base64,${media.data}` } };
+    }
+
+    // Chat completions only accept PDFs as inline file data, so plain text documents are sent as text
+    if (media.mediaType === 'text/plain' && media.data) {
+      const title = part.name ? `${part.name}:\n` : '';
+      return { type: 'text', text: `${title}${Buffer.from(media.data, 'base64').toString('utf-8')}` };
+    }
+    if (media.url) {
+      throw new Error('Documents must be sent as a file or base64 data; URLs are not supported by this provider');
+    }
+
+    const filename = part.name
+      || (part.source.type === 'file' ? path.basename(part.source.path) : 'document.pdf');
+    return {
+      type: 'file',
+      file: { filename, file_data: `data:${media.mediaType || 'application/pdf'};base64,${media.data}` }
+    };
+  });
+}
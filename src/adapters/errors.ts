@@ -0,0 +1,241 @@
+// universal-developer/src/adapters/errors.ts
+
+// Internal error, bad gateway, unavailable, gateway timeout and Anthropic's overloaded
+const RETRYABLE_STATUSES = [500, 502, 503, 504, 529];
+
+export interface ProviderErrorDetails {
+  provider: string;
+  status?: number; // HTTP status, when the provider responded
+  requestId?: string; // Provider request id, for support tickets
+  type?: string; // Provider error type or code, e.g. rate_limit_error
+  retryAfterMs?: number; // Delay requested with Retry-After
+  cause?: any; // Original error
+}
+
+/**
+ * Base class of errors returned by a provider, or raised while contacting one
+ */
+export class ProviderError extends Error {
+  public readonly provider: string;
+  public readonly status?: number;
+  public readonly requestId?: string;
+  public readonly type?: string;
+  public readonly retryAfterMs?: number;
+  public readonly cause?: any;
+
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = details.provider;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.type = details.type;
+    this.retryAfterMs = details.retryAfterMs;
+    this.cause = details.cause;
+  }
+
+  // Whether sending the same request again may succeed; only server errors known to be transient qualify
+  public get retryable(): boolean {
+    return this.status !== undefined && RETRYABLE_STATUSES.includes(this.status);
+  }
+}
+
+// Invalid, expired or unauthorized API key (401, 403)
+export class AuthenticationError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'AuthenticationError';
+  }
+
+  public get retryable(): boolean {
+    return false;
+  }
+}
+
+// Too many requests or tokens (429)
+export class RateLimitError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'RateLimitError';
+  }
+
+  public get retryable(): boolean {
+    return true;
+  }
+}
+
+// Provider temporarily out of capacity (529, 503)
+export class OverloadedError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'OverloadedError';
+  }
+
+  public get retryable(): boolean {
+    return true;
+  }
+}
+
+// Request rejected as malformed or unsupported (400, 404, 422)
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'InvalidRequestError';
+  }
+
+  public get retryable(): boolean {
+    return false;
+  }
+}
+
+// Request rejected by the provider for exceeding the model's context window
+export class ContextLengthError extends InvalidRequestError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'ContextLengthError';
+  }
+}
+
+// No response in time (408, 504 or a client-side timeout)
+export class TimeoutError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'TimeoutError';
+  }
+
+  public get retryable(): boolean {
+    return true;
+  }
+}
+
+// Connection failed before the provider responded
+export class NetworkError extends ProviderError {
+  constructor(message: string, details: ProviderErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+
+  public get retryable(): boolean {
+    return true;
+  }
+}
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH'];
+const CONTEXT_LENGTH_PATTERN = /context.length|context.window|prompt is too long|maximum context|too many tokens/i;
+
+/**
+ * Convert an error from an HTTP call into a typed provider error
+ * @param error Error thrown by axios, or raised while reading the response
+ * @param provider Provider identifier
+ * @param prefix Start of the message, e.g. `Failed to execute Claude prompt`
+ * @returns The matching ProviderError subclass, with status, request id and Retry-After
+ */
+export async function toProviderError(error: any, provider: string, prefix: string): Promise<ProviderError> {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const response = error?.response;
+  if (!response) {
+    const details: ProviderErrorDetails = { provider, type: error?.code, cause: error };
+    if (TIMEOUT_CODES.includes(error?.code)) {
+      return new TimeoutError(`${prefix}: request timed out (${error.message})`, details);
+    }
+    if (NETWORK_CODES.includes(error?.code)) {
+      return new NetworkError(`${prefix}: ${error.message}`, details);
+    }
+    return new ProviderError(`${prefix}: ${error?.message}`, details);
+  }
+
+  // Streamed requests return their error body as a stream
+  const body = await readBody(response.data);
+  const headers = response.headers || {};
+
+  return createProviderError(response.status, body, {
+    provider,
+    status: response.status,
+    requestId: headers['request-id'] || headers['x-request-id'] || body?.request_id,
+    retryAfterMs: parseRetryAfter(headers),
+    cause: error
+  }, prefix);
+}
+
+/**
+ * Build a typed provider error from a status code and error body. Also used
+ * for errors delivered inside a stream, which have no status.
+ */
+export function createProviderError(
+  status: number | undefined,
+  body: any,
+  details: ProviderErrorDetails,
+  prefix: string
+): ProviderError {
+  // Anthropic and OpenAI both nest the error as { error: { type, message } }; OpenAI adds a code
+  const detail = body?.error || body || {};
+  const type: string | undefined = detail.code || detail.type;
+  const reason = typeof detail === 'string' ? detail : detail.message || JSON.stringify(detail);
+  const message = `${prefix}: ${status !== undefined ? `${status} ` : ''}${type ? `(${type}) ` : ''}${reason}`;
+  const withType = { ...details, type };
+
+  if (status === 401 || status === 403 || type === 'authentication_error' || type === 'permission_error') {
+    return new AuthenticationError(message, withType);
+  }
+  if (status === 429 || type === 'rate_limit_error') {
+    return new RateLimitError(message, withType);
+  }
+  if (status === 529 || status === 503 || type === 'overloaded_error') {
+    return new OverloadedError(message, withType);
+  }
+  if (status === 408 || status === 504) {
+    return new TimeoutError(message, withType);
+  }
+  if (type === 'context_length_exceeded' || ((status === 400 || status === 413) && CONTEXT_LENGTH_PATTERN.test(reason))) {
+    return new ContextLengthError(message, withType);
+  }
+  if (status === 400 || status === 404 || status === 413 || status === 422 || type === 'invalid_request_error') {
+    return new InvalidRequestError(message, withType);
+  }
+  return new ProviderError(message, withType);
+}
+
+/**
+ * Read Retry-After in milliseconds, from OpenAI's retry-after-ms or the
+ * standard header in seconds or as an HTTP date
+ */
+function parseRetryAfter(headers: Record<string, any>): number | undefined {
+  const milliseconds = Number(headers['retry-after-ms']);
+  if (headers['retry-after-ms'] !== undefined && !Number.isNaN(milliseconds)) {
+    return milliseconds;
+  }
+
+  const value = headers['retry-after'];
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function readBody(data: any): Promise<any> {
+  if (!data || typeof data.pipe !== 'function') {
+    return data;
+  }
+
+  let text = '';
+  for await (const chunk of data) {
+    text += chunk;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
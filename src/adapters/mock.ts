@@ -0,0 +1,303 @@
+// universal-developer/src/adapters/mock.ts
+
+import { ModelAdapter, MediaType, TransformedPrompt, ProviderRequest, ProviderResponse, FinishReason, StreamEvent, TokenUsage, ToolCall } from './base';
+import { createProviderError } from './errors';
+import { RetryOptions, sleep } from './retry';
+import { Tokenizer, countPromptTokens } from '../tokenizer';
+import { ResponseCache } from '../cache';
+import { Cassette } from '../cassette';
+
+/**
+ * Provider error to fail a scripted request with, as the HTTP API would report it
+ */
+export interface MockError {
+  status: number; // e.g. 429 for a RateLimitError or 529 for an OverloadedError
+  type?: string; // Provider error type, e.g. rate_limit_error
+  message?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * One scripted reply. Fields left out are filled in: usage is estimated from
+ * the prompt and text, and the finish reason follows from the tool calls.
+ */
+export interface MockResponse {
+  text?: string;
+  thinking?: string;
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
+  finishReason?: FinishReason;
+  delayMs?: number; // Latency of this reply, overriding latencyMs
+  error?: Error | MockError; // Fail the request instead of replying
+}
+
+// A reply, or a function computing one from the request
+export type MockReply<T> = string | MockResponse | ((request: T, index: number) => string | MockResponse | Promise<string | MockResponse>);
+
+interface MockOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  responses?: Array<MockReply<ProviderRequest>>; // Replies in request order; without them every request is echoed
+  latencyMs?: number; // Delay before each reply
+  vision?: boolean; // Whether images and documents are accepted (default true)
+  contextWindow?: number;
+  tokenizer?: Tokenizer;
+  retry?: RetryOptions | false;
+  cache?: ResponseCache;
+  timeoutMs?: number;
+  cassette?: Cassette;
+}
+
+/**
+ * Adapter that answers without contacting any provider, for tests. Replies
+ * follow the `responses` script; without one, each reply is the
+ * TransformedPrompt the adapter received, as JSON. Requests are kept in
+ * `requests` so tests can check what would have been sent.
+ */
+export class MockAdapter extends ModelAdapter {
+  public readonly provider = 'mock';
+  protected model: string;
+  private maxTokens: number;
+  private temperature: number;
+
+  // Every request sent, in order, including failed ones
+  public readonly requests: ProviderRequest[] = [];
+
+  constructor(apiKey: string = '', options: MockOptions = {}) {
+    super(apiKey, options);
+
+    this.model = options.model || 'mock-model';
+    this.maxTokens = options.maxTokens || 4096;
+    this.temperature = options.temperature ?? 0.7;
+  }
+
+  protected async transformThink(prompt: string, options: any): Promise<TransformedPrompt> {
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Think step by step before answering.`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.2),
+        enable_thinking: true
+      }
+    };
+  }
+
+  protected async transformFast(prompt: string, options: any): Promise<TransformedPrompt> {
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Answer briefly.`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.min(1.0, this.temperature + 0.1),
+        max_tokens: Math.min(this.maxTokens, 1024)
+      }
+    };
+  }
+
+  protected async transformLoop(prompt: string, options: any): Promise<TransformedPrompt> {
+    const iterations = options.parameters.iterations || 3;
+
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Refine your answer over ${iterations} iterations.`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature
+      }
+    };
+  }
+
+  protected async transformReflect(prompt: string, options: any): Promise<TransformedPrompt> {
+    const depth = options.parameters.depth || 1;
+
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Answer, then reflect on your assumptions and limitations${depth > 1 ? ` over ${depth} rounds` : ''}.`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.1)
+      }
+    };
+  }
+
+  protected async transformCollapse(prompt: string, options: any): Promise<TransformedPrompt> {
+    return {
+      systemPrompt: options.systemPrompt || '',
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature,
+        max_tokens: this.maxTokens
+      }
+    };
+  }
+
+  protected async transformFork(prompt: string, options: any): Promise<TransformedPrompt> {
+    const count = options.parameters.count || 2;
+
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Give ${count} distinct alternative answers.`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.min(1.0, this.temperature + 0.2)
+      }
+    };
+  }
+
+  protected async transformFormat(prompt: string, options: any): Promise<TransformedPrompt> {
+    const format = options.parameters.format || 'markdown';
+    let systemPrompt = `${options.systemPrompt || ''}
+Respond in ${format}.`;
+
+    if (format === 'json' && options.parameters.schema) {
+      systemPrompt += `
+The JSON must follow this JSON Schema:
+${JSON.stringify(options.parameters.schema, null, 2)}`;
+    }
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature
+      }
+    };
+  }
+
+  protected async transformExpert(prompt: string, options: any): Promise<TransformedPrompt> {
+    const { domain, level = 5 } = options.parameters;
+
+    return {
+      systemPrompt: `${options.systemPrompt || ''}
+Respond as an expert in ${domain} (level ${level}/5).`,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.1)
+      }
+    };
+  }
+
+  protected async sendRequest(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
+    const reply = await this.nextReply(request, signal);
+    const text = reply.text ?? '';
+
+    return {
+      text,
+      thinking: reply.thinking,
+      usage: reply.usage ?? this.estimateUsage(request, text),
+      finishReason: reply.finishReason ?? (reply.toolCalls?.length ? 'tool_use' : 'stop'),
+      model: this.model,
+      requestId: `mock_${this.requests.length}`,
+      toolCalls: reply.toolCalls,
+      raw: { request: request.body, reply }
+    };
+  }
+
+  protected async *sendStreamRequest(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    const response = await this.sendRequest(request, signal);
+
+    if (response.thinking) {
+      yield { type: 'thinking_delta', thinking: response.thinking };
+    }
+    // Word by word, so consumers see more than one delta
+    for (const chunk of response.text.match(/\S+\s*|\s+/g) || []) {
+      yield { type: 'text_delta', text: chunk };
+    }
+    yield { type: 'done', usage: response.usage, finishReason: response.finishReason };
+  }
+
+  protected buildRequest(transformed: TransformedPrompt): ProviderRequest {
+    return {
+      method: 'POST',
+      url: `mock://${this.model}`,
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        model: this.model,
+        transformed,
+        max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
+        temperature: transformed.modelParameters?.temperature ?? this.temperature
+      }
+    };
+  }
+
+  protected supportsContent(type: MediaType): boolean {
+    return this.options.vision ?? true;
+  }
+
+  /**
+   * Wait out the latency and produce the reply for the next request, from
+   * the script or by echoing the transformed prompt
+   */
+  private async nextReply(request: ProviderRequest, signal?: AbortSignal): Promise<MockResponse> {
+    const index = this.requests.length;
+    this.requests.push(request);
+
+    const script: Array<MockReply<ProviderRequest>> | undefined = this.options.responses;
+    if (script && index >= script.length) {
+      throw new Error(`MockAdapter received request ${index + 1} but only ${script.length} responses are scripted`);
+    }
+
+    const entry = script?.[index];
+    const reply = entry === undefined
+      ? { text: JSON.stringify(request.body.transformed, null, 2) }
+      : toMockResponse(typeof entry === 'function' ? await entry(request, index) : entry);
+
+    await sleep(reply.delayMs ?? this.options.latencyMs ?? 0, signal);
+
+    if (reply.error) {
+      throw toMockError(reply.error, this.provider);
+    }
+
+    return reply;
+  }
+
+  private estimateUsage(request: ProviderRequest, text: string): TokenUsage {
+    const inputTokens = countPromptTokens(request.body.transformed, this.tokenizer()).total;
+    const outputTokens = this.tokenizer().countTokens(text);
+
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  }
+}
+
+// Provider error types a status stands for when a scripted error gives none
+const ERROR_TYPES: Record<number, string> = {
+  400: 'invalid_request_error',
+  401: 'authentication_error',
+  403: 'permission_error',
+  404: 'not_found_error',
+  429: 'rate_limit_error',
+  500: 'api_error',
+  529: 'overloaded_error'
+};
+
+export function toMockResponse(reply: string | MockResponse): MockResponse {
+  return typeof reply === 'string' ? { text: reply } : reply;
+}
+
+/**
+ * The typed provider error a scripted error stands for; errors given as Error instances are thrown as-is
+ */
+export function toMockError(error: Error | MockError, provider: string): Error {
+  if (error instanceof Error) {
+    return error;
+  }
+
+  return createProviderError(
+    error.status,
+    { error: mockErrorBody(error) },
+    { provider, status: error.status, retryAfterMs: error.retryAfterMs },
+    'Mock request failed'
+  );
+}
+
+/**
+ * Type and message of a scripted error, with defaults for the ones left out
+ */
+export function mockErrorBody(error: MockError): { type: string, message: string } {
+  return {
+    type: error.type || ERROR_TYPES[error.status] || 'api_error',
+    message: error.message || `Mock error ${error.status}`
+  };
+}
@@ -1,19 +1,65 @@
 // universal-developer/src/adapters/openai.ts
 
-import { ModelAdapter, TransformedPrompt } from './base';
+import { ModelAdapter, MediaType, TransformedPrompt, ProviderRequest, ProviderResponse, FinishReason, StreamEvent, TokenUsage, MiddlewareContext } from './base';
+import { parseServerSentEvents } from './sse';
+import { parseOpenAIToolCalls, toOpenAIMessages, toOpenAIToolChoice, toOpenAITools } from './tools';
+import { userContent } from './content';
+import { createProviderError, toProviderError } from './errors';
+import { RetryOptions } from './retry';
+import { Tokenizer } from '../tokenizer';
+import { ResponseCache } from '../cache';
+import { Cassette } from '../cassette';
 import axios from 'axios';
 
+// Context windows by model prefix; the first match wins
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['gpt-4.1', 1047576],
+  ['gpt-5', 400000],
+  ['gpt-4o', 128000],
+  ['chatgpt-4o', 128000],
+  ['gpt-4.5', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4-1106', 128000],
+  ['gpt-4-0125', 128000],
+  ['gpt-4-vision', 128000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo-instruct', 4096],
+  ['gpt-3.5-turbo', 16385],
+  ['o1-mini', 128000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000]
+];
+
+// Depth of the answer for /expert levels 1 to 5
+const EXPERTISE_INSTRUCTIONS = [
+  'You have a foundational understanding of the field. Explain concepts in plain language, define the terms you use, and say when a specialist should be consulted.',
+  'You have working knowledge of the field. Use common terminology with short explanations and focus on established, practical approaches.',
+  'You have solid professional experience in the field. Use standard terminology and frameworks, and point out the usual trade-offs and pitfalls.',
+  'You have advanced expertise in the field. Use precise terminology and recognized frameworks, and discuss trade-offs and edge cases without over-explaining the basics.',
+  'You have deep, authoritative mastery of the field. Respond using domain-specific terminology, recognized frameworks, and expert insights, addressing subtleties, open questions, and the current state of the art.'
+];
+
 interface OpenAIOptions {
   apiVersion?: string;
   maxTokens?: number;
   temperature?: number;
   baseURL?: string;
   model?: string;
+  vision?: boolean; // Whether the model accepts images and documents, for models not recognized by name
+  contextWindow?: number; // Context window in tokens, for models not recognized by name
+  tokenizer?: Tokenizer; // Exact tokenizer to use instead of the built-in estimate
+  retry?: RetryOptions | false; // Backoff for rate limits, overloads and transient failures
+  cache?: ResponseCache; // Store for responses to repeated identical requests
+  timeoutMs?: number; // Default time allowed for each call, including retries
+  cassette?: Cassette; // Records requests and responses, or replays them offline
 }
 
 export class OpenAIAdapter extends ModelAdapter {
+  public readonly provider = 'openai';
   private baseURL: string;
-  private model: string;
+  protected model: string;
   private maxTokens: number;
   private temperature: number;
 
@@ -91,7 +137,9 @@ Clearly label each iteration (e.g., "Iteration 1", "Critique 1", etc.) in your r
   }
 
   protected async transformReflect(prompt: string, options: any): Promise<TransformedPrompt> {
-    const systemPrompt = `${options.systemPrompt || ''}
+    const depth = options.parameters.depth || 1;
+    
+    let systemPrompt = `${options.systemPrompt || ''}
 For this query, please structure your response in two distinct parts:
 
 PART 1: DIRECT RESPONSE
@@ -107,6 +155,12 @@ Then, engage in critical reflection on your own response by addressing:
 
 Make sure both parts are clearly labeled and distinguishable.`;
 
+    if (depth > 1) {
+      systemPrompt += `
+
+Repeat PART 2 ${depth} times in total, labeled META-REFLECTION 1 to ${depth}, each one critically examining the reflection before it.`;
+    }
+
     return {
       systemPrompt,
       userPrompt: prompt,
@@ -145,47 +199,244 @@ Please provide ${count} substantively different responses to this prompt. Each a
     };
   }
 
-  protected async executePrompt(transformed: TransformedPrompt): Promise<string> {
+  protected async transformFormat(prompt: string, options: any): Promise<TransformedPrompt> {
+    // OpenAI has a native JSON mode; other formats rely on the system prompt
+    const format = options.parameters.format || 'markdown';
+    const instructions: Record<string, string> = {
+      json: 'Please format your entire response as a valid JSON object. Do not include any text outside of the JSON structure.',
+      html: 'Please format your entire response as valid HTML. Do not include any text outside of the HTML markup.',
+      csv: 'Please format your entire response as CSV with a header row. Do not include any text outside of the CSV data.',
+      text: 'Please respond in plain text only, without markdown or any other markup.',
+      markdown: 'Please format your response using markdown.'
+    };
+
+    let systemPrompt = `${options.systemPrompt || ''}
+${instructions[format]}`;
+
+    if (format === 'json' && options.parameters.schema) {
+      systemPrompt += `
+The JSON object must conform to the following JSON Schema:
+${JSON.stringify(options.parameters.schema, null, 2)}`;
+    }
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature,
+        max_tokens: this.maxTokens,
+        // JSON mode guarantees syntactically valid JSON; the schema is enforced by validation
+        ...(format === 'json' ? { response_format: { type: 'json_object' } } : {})
+      }
+    };
+  }
+
+  protected async transformExpert(prompt: string, options: any): Promise<TransformedPrompt> {
+    const { domain, level = 5 } = options.parameters;
+
+    const systemPrompt = `${options.systemPrompt || ''}
+You are answering as a specialist in ${domain} with a proficiency level of ${level} out of 5. ${EXPERTISE_INSTRUCTIONS[level - 1]}`;
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.1),
+        max_tokens: this.maxTokens
+      }
+    };
+  }
+
+  protected async sendRequest(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
     try {
-      const messages = [
-        // System message if provided
-        ...(transformed.systemPrompt ? [{
-          role: 'system',
-          content: transformed.systemPrompt
-        }] : []),
-        // User message
-        {
-          role: 'user',
-          content: transformed.userPrompt
-        }
-      ];
+      const response = await axios.post(request.url, request.body, { headers: request.headers, signal });
+
+      return this.parseResponse(response.data, response.headers);
+    } catch (error) {
+      throw await toProviderError(error, this.provider, 'Failed to execute OpenAI prompt');
+    }
+  }
+
+  protected async executeSamples(
+    transformed: TransformedPrompt,
+    count: number,
+    context: MiddlewareContext
+  ): Promise<ProviderResponse[]> {
+    // OpenAI returns several independent choices from one request with `n`
+    const { request, tokens } = this.prepareRequest(transformed);
+    const requestContext: MiddlewareContext = { ...context, request: { ...request, body: { ...request.body, n: count } }, tokens };
+
+    // `n` is part of the cache key, so cached samples are only reused for the same count
+    const response = await this.fetchResponse(requestContext, transformed);
+    const choices: any[] | undefined = response.raw?.choices;
+    if (!choices) {
+      // A beforeRequest hook answered with a single response, so ask for each alternative separately
+      return super.executeSamples(transformed, count, context);
+    }
+
+    // Each alternative passes through afterResponse hooks on its own
+    return Promise.all(choices.map((choice, index) => {
+      const parsed = this.parseResponse({ ...response.raw, choices: [choice] });
+      return this.completeResponse({
+        ...parsed,
+        requestId: response.requestId,
+        cached: response.cached,
+        // Usage is only reported for the whole request, so it is attributed to the first alternative
+        usage: index === 0 ? parsed.usage : undefined
+      }, { ...requestContext });
+    }));
+  }
 
-      const response = await axios.post(
-        `${this.baseURL}/v1/chat/completions`,
+  protected async *sendStreamRequest(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    let response;
+    try {
+      response = await axios.post(
+        request.url,
         {
-          model: this.model,
-          messages,
-          max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
-          temperature: transformed.modelParameters?.temperature || this.temperature,
-          ...(transformed.modelParameters?.presence_penalty !== undefined ? 
-              { presence_penalty: transformed.modelParameters.presence_penalty } : 
-              {}),
-          ...(transformed.modelParameters?.frequency_penalty !== undefined ? 
-              { frequency_penalty: transformed.modelParameters.frequency_penalty } : 
-              {})
+          ...request.body,
+          stream: true,
+          stream_options: { include_usage: true }
         },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`
-          }
-        }
+        { headers: request.headers, responseType: 'stream', signal }
       );
-
-      return response.data.choices[0].message.content;
     } catch (error) {
-      console.error('Error executing OpenAI prompt:', error);
-      throw new Error(`Failed to execute OpenAI prompt: ${error.message}`);
+      throw await toProviderError(error, this.provider, 'Failed to stream OpenAI prompt');
+    }
+
+    let usage: TokenUsage | undefined;
+    let finishReason: FinishReason | undefined;
+
+    for await (const { data } of parseServerSentEvents(response.data)) {
+      if (data === '[DONE]') {
+        break;
+      }
+
+      const payload = JSON.parse(data);
+      if (payload.error) {
+        throw createProviderError(undefined, payload, { provider: this.provider }, 'OpenAI stream error');
+      }
+
+      const choice = payload.choices?.[0];
+      const delta = choice?.delta;
+
+      if (choice) {
+        if (delta?.content) {
+          yield { type: 'text_delta', text: delta.content };
+        }
+        finishReason = choice.finish_reason
+          ? this.normalizeFinishReason(choice.finish_reason)
+          : finishReason;
+      }
+
+      // With include_usage the final chunk carries usage and no choices
+      if (payload.usage) {
+        usage = {
+          inputTokens: payload.usage.prompt_tokens || 0,
+          outputTokens: payload.usage.completion_tokens || 0,
+          totalTokens: payload.usage.total_tokens || 0
+        };
+      }
+    }
+
+    yield { type: 'done', usage, finishReason };
+  }
+
+  protected buildRequest(transformed: TransformedPrompt): ProviderRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseURL}/v1/chat/completions`,
+      headers: this.buildHeaders(),
+      body: this.buildRequestBody(transformed)
+    };
+  }
+
+  protected supportsContent(type: MediaType): boolean {
+    if (this.options.vision !== undefined) {
+      return this.options.vision;
+    }
+
+    // The original gpt-4 and gpt-3.5 models are text-only
+    return type === 'image'
+      ? /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-4-turbo|gpt-4-vision|gpt-5|chatgpt-4o|o1(?!-mini)|o3(?!-mini)|o4)/.test(this.model)
+      : /^(gpt-4o|gpt-4\.1|gpt-5|o1(?!-mini)|o3(?!-mini)|o4)/.test(this.model);
+  }
+
+  protected contextWindow(): number | undefined {
+    return super.contextWindow() ?? CONTEXT_WINDOWS.find(([prefix]) => this.model.startsWith(prefix))?.[1];
+  }
+
+  private parseResponse(data: any, headers: Record<string, any> = {}): ProviderResponse {
+    const choice = data.choices?.[0];
+
+    return {
+      text: choice?.message?.content || '',
+      usage: data.usage ? {
+        inputTokens: data.usage.prompt_tokens || 0,
+        outputTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || 0
+      } : undefined,
+      finishReason: this.normalizeFinishReason(choice?.finish_reason),
+      model: data.model || this.model,
+      requestId: headers['x-request-id'] || data.id,
+      toolCalls: parseOpenAIToolCalls(choice?.message),
+      raw: data
+    };
+  }
+
+  private normalizeFinishReason(reason: string | undefined): FinishReason {
+    switch (reason) {
+      case 'stop':
+        return 'stop';
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_use';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'unknown';
     }
   }
+
+  private buildRequestBody(transformed: TransformedPrompt): Record<string, any> {
+    const messages = [
+      // System message if provided
+      ...(transformed.systemPrompt ? [{
+        role: 'system',
+        content: transformed.systemPrompt
+      }] : []),
+      // Earlier conversation turns, the user message and any tool calls and results that followed it
+      ...toOpenAIMessages([
+        ...(transformed.history || []),
+        { role: 'user', content: userContent(transformed) },
+        ...(transformed.toolTurns || [])
+      ])
+    ];
+
+    return {
+      model: this.model,
+      messages,
+      ...(transformed.tools ? { tools: toOpenAITools(transformed.tools) } : {}),
+      ...(transformed.toolChoice ? { tool_choice: toOpenAIToolChoice(transformed.toolChoice) } : {}),
+      max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
+      temperature: transformed.modelParameters?.temperature || this.temperature,
+      ...(transformed.modelParameters?.presence_penalty !== undefined ? 
+          { presence_penalty: transformed.modelParameters.presence_penalty } : 
+          {}),
+      ...(transformed.modelParameters?.frequency_penalty !== undefined ? 
+          { frequency_penalty: transformed.modelParameters.frequency_penalty } : 
+          {}),
+      ...(transformed.modelParameters?.response_format !== undefined ? 
+          { response_format: transformed.modelParameters.response_format } : 
+          {})
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`
+    };
+  }
 }
@@ -1,19 +1,65 @@
 // universal-developer/src/adapters/qwen.ts
 
-import { ModelAdapter, TransformedPrompt } from './base';
+import { ModelAdapter, MediaType, TransformedPrompt, ProviderRequest, ProviderResponse, FinishReason, StreamEvent, TokenUsage } from './base';
+import { parseServerSentEvents } from './sse';
+import { parseOpenAIToolCalls, toOpenAIMessages, toOpenAIToolChoice, toOpenAITools } from './tools';
+import { userContent } from './content';
+import { createProviderError, toProviderError } from './errors';
+import { RetryOptions } from './retry';
+import { Tokenizer } from '../tokenizer';
+import { ResponseCache } from '../cache';
+import { Cassette } from '../cassette';
 import axios from 'axios';
 
+// Context windows by model prefix; the first match wins
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['qwen-long', 10000000],
+  ['qwen-turbo', 1000000],
+  ['qwen-plus', 131072],
+  ['qwen-max', 32768],
+  ['qwen-vl', 32768],
+  ['qwen3', 131072],
+  ['qwen2.5', 131072],
+  ['qwq', 131072],
+  ['qvq', 131072]
+];
+
+// Roles and guidance for /expert levels 1 to 5
+const EXPERTISE_ROLES = [
+  'a knowledgeable beginner',
+  'a practitioner',
+  'an experienced professional',
+  'a senior expert',
+  'a leading authority'
+];
+
+const EXPERTISE_APPROACHES = [
+  'Use plain language, define terminology, and mention when to consult a specialist.',
+  'Use common terminology with brief explanations and established, practical approaches.',
+  'Use standard terminology and frameworks, and note the usual trade-offs and pitfalls.',
+  'Use precise terminology, discuss trade-offs and edge cases, and skip the basics.',
+  'Use expert terminology and approaches, and address subtleties, open questions, and the state of the art.'
+];
+
 interface QwenOptions {
   apiVersion?: string;
   maxTokens?: number;
   temperature?: number;
   baseURL?: string;
   model?: string;
+  vision?: boolean; // Whether the model accepts images and documents, for models not recognized by name
+  contextWindow?: number; // Context window in tokens, for models not recognized by name
+  tokenizer?: Tokenizer; // Exact tokenizer to use instead of the built-in estimate
+  retry?: RetryOptions | false; // Backoff for rate limits, overloads and transient failures
+  cache?: ResponseCache; // Store for responses to repeated identical requests
+  timeoutMs?: number; // Default time allowed for each call, including retries
+  cassette?: Cassette; // Records requests and responses, or replays them offline
 }
 
 export class QwenAdapter extends ModelAdapter {
+  public readonly provider = 'qwen';
   private baseURL: string;
-  private model: string;
+  protected model: string;
   private maxTokens: number;
   private temperature: number;
 
@@ -76,7 +122,9 @@ Please use an iterative approach with ${iterations} refinement cycles:
   }
 
   protected async transformReflect(prompt: string, options: any): Promise<TransformedPrompt> {
-    const systemPrompt = `${options.systemPrompt || ''}
+    const depth = options.parameters.depth || 1;
+    
+    let systemPrompt = `${options.systemPrompt || ''}
 For this response, please:
 1. Answer the query directly
 2. Then reflect on your answer by analyzing:
@@ -85,6 +133,11 @@ For this response, please:
    - Limitations in your approach
    - Potential improvements`;
 
+    if (depth > 1) {
+      systemPrompt += `
+3. Reflect on your reflection, repeating for ${depth} rounds in total`;
+    }
+
     return {
       systemPrompt,
       userPrompt: `${prompt} /think`, // Use native thinking for reflection
@@ -125,51 +178,210 @@ Please provide ${count} distinct alternative responses to this prompt, represent
     };
   }
 
-  protected async executePrompt(transformed: TransformedPrompt): Promise<string> {
+  protected async transformFormat(prompt: string, options: any): Promise<TransformedPrompt> {
+    // Qwen follows format instructions in the system prompt
+    const format = options.parameters.format || 'markdown';
+    const instructions: Record<string, string> = {
+      json: 'Please provide your entire response as a valid JSON object. Do not include any text outside the JSON structure.',
+      html: 'Please provide your entire response as valid HTML. Do not include any text outside the HTML markup.',
+      csv: 'Please provide your entire response as CSV with a header row. Do not include any text outside the CSV data.',
+      text: 'Please respond in plain text without any markup.',
+      markdown: 'Please format your response using markdown.'
+    };
+
+    let systemPrompt = `${options.systemPrompt || ''}
+${instructions[format]}`;
+
+    if (format === 'json' && options.parameters.schema) {
+      systemPrompt += `
+The JSON object must follow this JSON Schema:
+${JSON.stringify(options.parameters.schema, null, 2)}`;
+    }
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: this.temperature,
+        max_tokens: this.maxTokens
+      }
+    };
+  }
+
+  protected async transformExpert(prompt: string, options: any): Promise<TransformedPrompt> {
+    const { domain, level = 5 } = options.parameters;
+
+    const systemPrompt = `${options.systemPrompt || ''}
+Please respond as ${EXPERTISE_ROLES[level - 1]} in ${domain} (level ${level}/5). ${EXPERTISE_APPROACHES[level - 1]}`;
+
+    return {
+      systemPrompt,
+      userPrompt: prompt,
+      modelParameters: {
+        temperature: Math.max(0.1, this.temperature - 0.1)
+      }
+    };
+  }
+
+  protected async sendRequest(request: ProviderRequest, signal?: AbortSignal): Promise<ProviderResponse> {
     try {
-      const messages = [
-        // System message if provided
-        ...(transformed.systemPrompt ? [{
-          role: 'system',
-          content: transformed.systemPrompt
-        }] : []),
-        // User message
-        {
-          role: 'user',
-          content: transformed.userPrompt
-        }
-      ];
+      const response = await axios.post(request.url, request.body, { headers: request.headers, signal });
+
+      return this.parseResponse(response.data, response.headers);
+    } catch (error) {
+      throw await toProviderError(error, this.provider, 'Failed to execute Qwen prompt');
+    }
+  }
 
-      const response = await axios.post(
-        `${this.baseURL}/v1/chat/completions`,
+  protected async *sendStreamRequest(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    let response;
+    try {
+      response = await axios.post(
+        request.url,
         {
-          model: this.model,
-          messages,
-          max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
-          temperature: transformed.modelParameters?.temperature || this.temperature,
-          ...('enable_thinking' in (transformed.modelParameters || {}) ? 
-              { enable_thinking: transformed.modelParameters?.enable_thinking } : 
-              {})
+          ...request.body,
+          stream: true,
+          stream_options: { include_usage: true }
         },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`
-          }
-        }
+        { headers: request.headers, responseType: 'stream', signal }
       );
+    } catch (error) {
+      throw await toProviderError(error, this.provider, 'Failed to stream Qwen prompt');
+    }
+
+    let usage: TokenUsage | undefined;
+    let finishReason: FinishReason | undefined;
 
-      // Extract thinking content if available
-      let content = '';
-      if (response.data.thinking_content) {
-        content = `<thinking>\n${response.data.thinking_content}\n</thinking>\n\n`;
+    for await (const { data } of parseServerSentEvents(response.data)) {
+      if (data === '[DONE]') {
+        break;
       }
-      content += response.data.choices[0].message.content;
 
-      return content;
-    } catch (error) {
-      console.error('Error executing Qwen prompt:', error);
-      throw new Error(`Failed to execute Qwen prompt: ${error.message}`);
+      const payload = JSON.parse(data);
+      if (payload.error) {
+        throw createProviderError(undefined, payload, { provider: this.provider }, 'Qwen stream error');
+      }
+
+      const choice = payload.choices?.[0];
+      const delta = choice?.delta;
+
+      if (choice) {
+        if (delta?.reasoning_content) {
+          yield { type: 'thinking_delta', thinking: delta.reasoning_content };
+        }
+        if (delta?.content) {
+          yield { type: 'text_delta', text: delta.content };
+        }
+        finishReason = choice.finish_reason
+          ? this.normalizeFinishReason(choice.finish_reason)
+          : finishReason;
+      }
+
+      // With include_usage the final chunk carries usage and no choices
+      if (payload.usage) {
+        usage = {
+          inputTokens: payload.usage.prompt_tokens || 0,
+          outputTokens: payload.usage.completion_tokens || 0,
+          totalTokens: payload.usage.total_tokens || 0
+        };
+      }
+    }
+
+    yield { type: 'done', usage, finishReason };
+  }
+
+  protected buildRequest(transformed: TransformedPrompt): ProviderRequest {
+    return {
+      method: 'POST',
+      url: `${this.baseURL}/v1/chat/completions`,
+      headers: this.buildHeaders(),
+      body: this.buildRequestBody(transformed)
+    };
+  }
+
+  protected supportsContent(type: MediaType): boolean {
+    if (this.options.vision !== undefined) {
+      return this.options.vision;
     }
+
+    // Only the VL, Omni and QVQ models accept images; documents are not supported
+    return type === 'image' && /(^|-)(vl|omni)(-|$)|^qvq/.test(this.model);
+  }
+
+  protected contextWindow(): number | undefined {
+    return super.contextWindow() ?? CONTEXT_WINDOWS.find(([prefix]) => this.model.startsWith(prefix))?.[1];
+  }
+
+  private parseResponse(data: any, headers: Record<string, any> = {}): ProviderResponse {
+    const choice = data.choices?.[0];
+
+    // Thinking is returned as reasoning_content, or thinking_content on older endpoints
+    const thinking = choice?.message?.reasoning_content || data.thinking_content;
+
+    return {
+      text: choice?.message?.content || '',
+      thinking: thinking || undefined,
+      usage: data.usage ? {
+        inputTokens: data.usage.prompt_tokens || 0,
+        outputTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || 0
+      } : undefined,
+      finishReason: this.normalizeFinishReason(choice?.finish_reason),
+      model: data.model || this.model,
+      requestId: headers['x-request-id'] || data.id,
+      toolCalls: parseOpenAIToolCalls(choice?.message),
+      raw: data
+    };
+  }
+
+  private normalizeFinishReason(reason: string | undefined): FinishReason {
+    switch (reason) {
+      case 'stop':
+        return 'stop';
+      case 'length':
+        return 'length';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_use';
+      case 'content_filter':
+        return 'content_filter';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private buildRequestBody(transformed: TransformedPrompt): Record<string, any> {
+    const messages = [
+      // System message if provided
+      ...(transformed.systemPrompt ? [{
+        role: 'system',
+        content: transformed.systemPrompt
+      }] : []),
+      // Earlier conversation turns, the user message and any tool calls and results that followed it
+      ...toOpenAIMessages([
+        ...(transformed.history || []),
+        { role: 'user', content: userContent(transformed) },
+        ...(transformed.toolTurns || [])
+      ])
+    ];
+
+    return {
+      model: this.model,
+      messages,
+      ...(transformed.tools ? { tools: toOpenAITools(transformed.tools) } : {}),
+      ...(transformed.toolChoice ? { tool_choice: toOpenAIToolChoice(transformed.toolChoice) } : {}),
+      max_tokens: transformed.modelParameters?.max_tokens || this.maxTokens,
+      temperature: transformed.modelParameters?.temperature || this.temperature,
+      ...('enable_thinking' in (transformed.modelParameters || {}) ? 
+          { enable_thinking: transformed.modelParameters?.enable_thinking } : 
+          {})
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`
+    };
   }
 }
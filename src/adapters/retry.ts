@@ -0,0 +1,93 @@
+// universal-developer/src/adapters/retry.ts
+
+import { ProviderError } from './errors';
+import { throwIfAborted } from './abort';
+
+export interface RetryOptions {
+  maxRetries?: number; // Retries after the first attempt (default 2)
+  initialDelayMs?: number; // Delay before the first retry (default 500)
+  maxDelayMs?: number; // Upper bound on any delay; a longer Retry-After is cut to it (default 30000)
+  factor?: number; // Growth of the delay per retry (default 2)
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 2,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  factor: 2
+};
+
+/**
+ * Delay before retrying a failed attempt, or undefined when it should not be
+ * retried. Retry-After is honored up to maxDelayMs; otherwise the delay grows
+ * exponentially, with jitter so concurrent clients don't retry in lockstep.
+ * @param error Error from the failed attempt
+ * @param attempt Number of retries made so far
+ * @param options Retry configuration, or false to disable retries
+ */
+export function retryDelay(error: any, attempt: number, options: RetryOptions | false = {}): number | undefined {
+  if (options === false || !(error instanceof ProviderError) || !error.retryable) {
+    return undefined;
+  }
+
+  const { maxRetries, initialDelayMs, maxDelayMs, factor } = { ...DEFAULT_RETRY, ...options };
+  if (attempt >= maxRetries) {
+    return undefined;
+  }
+
+  if (error.retryAfterMs !== undefined) {
+    // Retrying sooner than asked may fail again, but waiting longer than maxDelayMs would stall the call
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+
+  const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(factor, attempt));
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * Run an operation, retrying retryable provider errors with backoff
+ * @param operation Operation to run, e.g. sending a request
+ * @param options Retry configuration, or false to disable retries
+ * @param signal Stops retrying once aborted, failing with the signal's reason
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions | false = {},
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      // Errors caused by the abort itself are reported as the abort
+      throwIfAborted(signal);
+      const delay = retryDelay(error, attempt, options);
+      if (delay === undefined) {
+        throw error;
+      }
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Wait for a delay, ending early with the signal's reason if it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
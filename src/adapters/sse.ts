@@ -0,0 +1,61 @@
+// universal-developer/src/adapters/sse.ts
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a byte stream in text/event-stream format into discrete events.
+ * Comment lines are skipped and multi-line data fields are joined with newlines.
+ */
+export async function* parseServerSentEvents(
+  stream: AsyncIterable<Buffer | Uint8Array | string>
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newlineIndex;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+
+      // A blank line dispatches the pending event
+      if (line === '') {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        event = undefined;
+        data = [];
+        continue;
+      }
+
+      if (line.startsWith(':')) {
+        continue;
+      }
+
+      const colonIndex = line.indexOf(':');
+      const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+      let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    }
+  }
+
+  // Flush an event left unterminated when the stream closed
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
@@ -0,0 +1,165 @@
+// universal-developer/src/adapters/tools.ts
+
+import { ChatMessage, ToolCall, ToolChoice, ToolDefinition } from './base';
+import { contentText, toAnthropicContent, toOpenAIContent } from './content';
+
+/**
+ * Tool definitions in OpenAI's function calling format, which Qwen's
+ * OpenAI-compatible endpoint accepts as well
+ */
+export function toOpenAITools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }));
+}
+
+export function toOpenAIToolChoice(choice: ToolChoice): any {
+  return typeof choice === 'string'
+    ? choice
+    : { type: 'function', function: { name: choice.name } };
+}
+
+/**
+ * Conversation turns in OpenAI's format, with tool calls on the assistant
+ * turn and each result as a `tool` message
+ */
+export function toOpenAIMessages(messages: ChatMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: message.toolCallId,
+        // Tool messages have no error flag, so failures are marked in the content
+        content: message.isError ? `Error: ${contentText(message.content)}` : contentText(message.content)
+      };
+    }
+
+    if (message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: contentText(message.content) || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: message.role, content: toOpenAIContent(message.content) };
+  });
+}
+
+export function parseOpenAIToolCalls(message: any): ToolCall[] | undefined {
+  const calls: any[] = message?.tool_calls || [];
+  if (calls.length === 0) {
+    return undefined;
+  }
+
+  return calls.map(call => ({
+    id: call.id,
+    name: call.function?.name,
+    arguments: parseArguments(call.function?.arguments)
+  }));
+}
+
+export function toAnthropicTools(tools: ToolDefinition[]): any[] {
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters
+  }));
+}
+
+export function toAnthropicToolChoice(choice: ToolChoice): any {
+  switch (choice) {
+    case 'auto':
+      return { type: 'auto' };
+    case 'none':
+      return { type: 'none' };
+    case 'required':
+      return { type: 'any' };
+    default:
+      return { type: 'tool', name: choice.name };
+  }
+}
+
+/**
+ * Conversation turns in Anthropic's format, with tool calls as tool_use
+ * blocks on the assistant turn and results as tool_result blocks on a user turn
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): any[] {
+  const result: any[] = [];
+
+  messages.forEach(message => {
+    if (message.role === 'tool') {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: message.toolCallId,
+        content: toAnthropicContent(message.content),
+        ...(message.isError ? { is_error: true } : {})
+      };
+
+      // Results of parallel tool calls share a single user turn
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content) &&
+          previous.content.every((existing: any) => existing.type === 'tool_result')) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      return;
+    }
+
+    if (message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(contentText(message.content) ? [{ type: 'text', text: contentText(message.content) }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments
+          }))
+        ]
+      });
+      return;
+    }
+
+    result.push({ role: message.role, content: toAnthropicContent(message.content) });
+  });
+
+  return result;
+}
+
+export function parseAnthropicToolCalls(blocks: any[]): ToolCall[] | undefined {
+  const calls = blocks.filter(block => block.type === 'tool_use');
+  if (calls.length === 0) {
+    return undefined;
+  }
+
+  return calls.map(block => ({
+    id: block.id,
+    name: block.name,
+    arguments: block.input || {}
+  }));
+}
+
+// Models occasionally produce malformed arguments; the raw string is kept so callers can see it
+function parseArguments(raw: string | undefined): any {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    return raw;
+  }
+}
@@ -0,0 +1,204 @@
+// universal-developer/src/cache.ts
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContentPart, ProviderResponse, TransformedPrompt } from './adapters/base';
+import { loadMedia } from './adapters/content';
+
+/**
+ * Storage for provider responses, keyed by cacheKey. Pass one with the
+ * `cache` option; entries past their TTL must not be returned.
+ */
+export interface ResponseCache {
+  get(key: string): Promise<ProviderResponse | undefined>;
+  set(key: string, response: ProviderResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+  maxEntries?: number; // Least recently used entries are evicted beyond this (default 500)
+  ttlMs?: number; // Entries expire this long after they are stored; no expiry when unset
+}
+
+export interface DiskCacheOptions {
+  directory: string; // Created on first write
+  ttlMs?: number; // Entries expire this long after they are stored; no expiry when unset
+}
+
+interface CacheEntry {
+  expiresAt?: number;
+  response: ProviderResponse;
+}
+
+/**
+ * In-process cache that evicts the least recently used entry when full
+ */
+export class MemoryCache implements ResponseCache {
+  // Maps iterate in insertion order, so the first key is the least recently used
+  private entries: Map<string, CacheEntry> = new Map();
+  private readonly maxEntries: number;
+  private readonly ttlMs?: number;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.ttlMs = options.ttlMs;
+  }
+
+  public async get(key: string): Promise<ProviderResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (isExpired(entry)) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return clone(entry.response);
+  }
+
+  public async set(key: string, response: ProviderResponse): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { expiresAt: expiry(this.ttlMs), response: clone(response) });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache that stores each response as a JSON file, so it is shared between
+ * processes such as CI jobs and CLI invocations
+ */
+export class DiskCache implements ResponseCache {
+  private readonly directory: string;
+  private readonly ttlMs?: number;
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttlMs;
+  }
+
+  public async get(key: string): Promise<ProviderResponse | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(this.entryPath(key), 'utf-8'));
+    } catch (error) {
+      // Missing and unreadable entries are both misses; unreadable ones are overwritten by the next set
+      return undefined;
+    }
+
+    if (isExpired(entry)) {
+      await fs.promises.rm(this.entryPath(key), { force: true });
+      return undefined;
+    }
+
+    return entry.response;
+  }
+
+  public async set(key: string, response: ProviderResponse): Promise<void> {
+    const entry: CacheEntry = { expiresAt: expiry(this.ttlMs), response };
+
+    // Write to a temporary file first so concurrent readers never see a partial entry
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const temporary = `${this.entryPath(key)}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(entry));
+    await fs.promises.rename(temporary, this.entryPath(key));
+  }
+
+  public async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      return;
+    }
+
+    await Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(file => fs.promises.rm(path.join(this.directory, file), { force: true })));
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Hash identifying a request: the provider, model, final transformed prompt
+ * and request parameters. Attached files are hashed by their content, so
+ * editing a file invalidates the entries that used it.
+ * @param provider Provider identifier
+ * @param model Model the request is sent to
+ * @param transformed Transformed prompt after every command and middleware
+ * @param parameters Request body fields other than the prompt, e.g. temperature and max_tokens
+ * @returns Hex SHA-256 digest
+ */
+export function cacheKey(
+  provider: string,
+  model: string,
+  transformed: TransformedPrompt,
+  parameters: Record<string, any>
+): string {
+  const prompt = {
+    ...transformed,
+    attachments: transformed.attachments?.map(resolveFile),
+    history: transformed.history?.map(message => ({
+      ...message,
+      content: typeof message.content === 'string' ? message.content : message.content.map(resolveFile)
+    })),
+    // Handlers are not part of the request
+    tools: transformed.tools?.map(({ name, description, parameters }) => ({ name, description, parameters }))
+  };
+
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify({ provider, model, prompt, parameters }))
+    .digest('hex');
+}
+
+function resolveFile(part: ContentPart): ContentPart {
+  if (part.type === 'text' || part.source.type !== 'file') {
+    return part;
+  }
+
+  const { mediaType, data } = loadMedia(part.source);
+  return { ...part, source: { type: 'base64', mediaType: mediaType!, data: data! } };
+}
+
+/**
+ * JSON with object keys sorted, so equal values always produce the same string
+ */
+export function stableStringify(value: any): string {
+  return JSON.stringify(value, (key, current) => {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+      return current;
+    }
+
+    return Object.keys(current).sort().reduce<Record<string, any>>((sorted, name) => {
+      sorted[name] = current[name];
+      return sorted;
+    }, {});
+  });
+}
+
+function expiry(ttlMs?: number): number | undefined {
+  return ttlMs !== undefined ? Date.now() + ttlMs : undefined;
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== undefined && Date.now() >= entry.expiresAt;
+}
+
+// Copies keep callers from modifying stored responses, and match what the disk cache returns
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
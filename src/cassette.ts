@@ -0,0 +1,251 @@
+// universal-developer/src/cassette.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderRequest, ProviderResponse, StreamEvent } from './adapters/base';
+import { stableStringify } from './cache';
+
+export type CassetteMode = 'record' | 'replay';
+
+// strict compares the URL and body exactly; loose ignores the host and masks timestamps, dates and ids
+export type CassetteMatch = 'strict' | 'loose';
+
+export interface CassetteOptions {
+  path: string; // JSON file the interactions are saved to
+  mode?: CassetteMode; // Defaults to replay when the file exists or CI is set, and record otherwise
+  match?: CassetteMatch; // Default strict
+  ignore?: RegExp[]; // Further patterns masked in prompts when matching loosely
+}
+
+/**
+ * One request and what the provider returned for it. Headers are not
+ * saved, so cassettes never contain API keys.
+ */
+export interface CassetteInteraction {
+  request: { method: string, url: string, body: Record<string, any> };
+  stream: boolean;
+  response?: ProviderResponse; // Set for requests sent without streaming
+  events?: StreamEvent[]; // Set for streamed requests
+}
+
+/**
+ * Raised in replay mode for a request that was not recorded
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public readonly cassettePath: string,
+    public readonly request: ProviderRequest
+  ) {
+    super(
+      `No interaction in cassette ${cassettePath} matches ${request.method} ${request.url} ` +
+      `(model ${request.body.model}); record the cassette again, or use loose matching if the prompt contains changing values`
+    );
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+// Values that typically change between runs of the same prompt, masked when matching loosely
+const VOLATILE_PATTERNS = [
+  /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g,
+  /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g,
+  /\b\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp][Mm])?\b/g,
+  /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g,
+  /\b\d{10,13}\b/g
+];
+
+/**
+ * Records provider requests and responses to a file, and serves them back
+ * without contacting the provider. Pass one with the `cassette` option, or
+ * set the `UD_CASSETTE` environment variable to a file path.
+ */
+export class Cassette {
+  public readonly path: string;
+  public readonly mode: CassetteMode;
+  public readonly match: CassetteMatch;
+  private readonly ignore: RegExp[];
+  private interactions: CassetteInteraction[];
+  // Recorded interactions each answer one request, in order, before any is reused
+  private used: Set<CassetteInteraction> = new Set();
+  private saving: Promise<void> = Promise.resolve();
+  private saveError?: Error; // Set while the latest save has failed
+
+  constructor(options: CassetteOptions) {
+    this.path = path.resolve(options.path);
+    // In CI a missing cassette fails instead of silently calling the live API
+    this.mode = options.mode ?? (fs.existsSync(this.path) || isCI() ? 'replay' : 'record');
+    this.match = options.match ?? 'strict';
+    this.ignore = options.ignore || [];
+
+    // Recording starts a new cassette rather than adding to an old one
+    this.interactions = this.mode === 'replay' ? this.load() : [];
+  }
+
+  /**
+   * Cassette configured by UD_CASSETTE, UD_CASSETTE_MODE and UD_CASSETTE_MATCH,
+   * shared by every client in the process so recordings aren't overwritten
+   * @returns The cassette, or undefined when UD_CASSETTE is not set
+   */
+  public static fromEnv(env: NodeJS.ProcessEnv = process.env): Cassette | undefined {
+    if (!env.UD_CASSETTE) {
+      return undefined;
+    }
+
+    const key = path.resolve(env.UD_CASSETTE);
+    if (!envCassettes.has(key)) {
+      envCassettes.set(key, new Cassette({
+        path: key,
+        mode: parseSetting(env.UD_CASSETTE_MODE, ['record', 'replay'], 'UD_CASSETTE_MODE'),
+        match: parseSetting(env.UD_CASSETTE_MATCH, ['strict', 'loose'], 'UD_CASSETTE_MATCH')
+      }));
+    }
+
+    return envCassettes.get(key);
+  }
+
+  /**
+   * Send a request, or in replay mode answer it from the cassette
+   * @param request Request to send
+   * @param send Sends the request to the provider
+   */
+  public async send(request: ProviderRequest, send: () => Promise<ProviderResponse>): Promise<ProviderResponse> {
+    if (this.mode === 'replay') {
+      return this.find(request, false).response!;
+    }
+
+    const response = await send();
+    await this.record({ request: this.requestRecord(request), stream: false, response });
+
+    return response;
+  }
+
+  /**
+   * Stream a request, or in replay mode stream its recorded events. A
+   * stream is recorded once it completes.
+   * @param request Request to send
+   * @param send Streams the request from the provider
+   */
+  public async *stream(request: ProviderRequest, send: () => AsyncGenerator<StreamEvent>): AsyncGenerator<StreamEvent> {
+    if (this.mode === 'replay') {
+      yield* this.find(request, true).events!;
+      return;
+    }
+
+    const events: StreamEvent[] = [];
+    for await (const event of send()) {
+      events.push(event);
+      yield event;
+    }
+
+    await this.record({ request: this.requestRecord(request), stream: true, events });
+  }
+
+  /**
+   * Wait for recorded interactions to be saved. A failed save is logged
+   * instead of failing the request it recorded, and is retried with the
+   * next one; this rejects while the latest save has failed.
+   */
+  public async flush(): Promise<void> {
+    await this.saving;
+
+    if (this.saveError) {
+      throw new Error(`Cannot save cassette ${this.path}: ${this.saveError.message}`);
+    }
+  }
+
+  private find(request: ProviderRequest, stream: boolean): CassetteInteraction {
+    const key = this.matchKey(this.requestRecord(request));
+    const matches = this.interactions.filter(interaction =>
+      interaction.stream === stream && this.matchKey(interaction.request) === key
+    );
+
+    // Repeated requests get the responses recorded for them in order; once used up, the last is reused
+    const interaction = matches.find(candidate => !this.used.has(candidate)) ?? matches[matches.length - 1];
+    if (!interaction) {
+      throw new CassetteMismatchError(this.path, request);
+    }
+
+    this.used.add(interaction);
+    return JSON.parse(JSON.stringify(interaction));
+  }
+
+  private matchKey(request: CassetteInteraction['request']): string {
+    if (this.match === 'strict') {
+      return stableStringify(request);
+    }
+
+    return stableStringify({
+      method: request.method,
+      url: new URL(request.url).pathname,
+      body: this.mask(request.body)
+    });
+  }
+
+  // Replace changing values in every string of a request body
+  private mask(value: any): any {
+    if (typeof value === 'string') {
+      return [...VOLATILE_PATTERNS, ...this.ignore].reduce((masked, pattern) => masked.replace(pattern, '*'), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.mask(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, this.mask(item)]));
+    }
+
+    return value;
+  }
+
+  private requestRecord(request: ProviderRequest): CassetteInteraction['request'] {
+    return { method: request.method, url: request.url, body: request.body };
+  }
+
+  private async record(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(JSON.parse(JSON.stringify(interaction)));
+
+    // Saves are chained so concurrent requests don't interleave writes; each one writes every interaction so far
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.path), { recursive: true });
+        await fs.promises.writeFile(this.path, JSON.stringify({ version: 1, interactions: this.interactions }, null, 2));
+        this.saveError = undefined;
+      } catch (error) {
+        this.saveError = error;
+        console.warn(`Cannot save cassette ${this.path}:`, error.message);
+      }
+    });
+
+    return this.saving;
+  }
+
+  private load(): CassetteInteraction[] {
+    if (!fs.existsSync(this.path)) {
+      throw new Error(`Cassette ${this.path} does not exist; record it first with mode "record" (UD_CASSETTE_MODE=record)`);
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(this.path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Cannot read cassette ${this.path}: ${error.message}`);
+    }
+
+    return data.interactions || [];
+  }
+}
+
+const envCassettes: Map<string, Cassette> = new Map();
+
+function isCI(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.CI !== undefined && env.CI !== '' && env.CI !== 'false' && env.CI !== '0';
+}
+
+function parseSetting<T extends string>(value: string | undefined, allowed: T[], name: string): T | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Invalid ${name} "${value}" (expected ${allowed.join(' or ')})`);
+  }
+
+  return value as T;
+}
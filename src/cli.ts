@@ -3,7 +3,7 @@
 // universal-developer/src/cli.ts
 
 import { program } from 'commander';
-import { UniversalLLM } from './index';
+import { UniversalLLM, AbortError, Cassette, ChatMessage, ContentPart, DiskCache, MessageContent, Provider, loadCommandDefinitions } from './index';
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
@@ -63,19 +63,21 @@ program
 program
   .command('config')
   .description('Configure Universal Developer CLI')
-  .option('-p, --provider <provider>', 'Set default provider (anthropic, openai, qwen, gemini, ollama)')
+  .option('-p, --provider <provider>', 'Set default provider (anthropic, openai, qwen, gemini, ollama, mock)')
   .option('-k, --key <key>', 'Set API key for the default provider')
   .option('--anthropic-key <key>', 'Set API key for Anthropic/Claude')
   .option('--openai-key <key>', 'Set API key for OpenAI')
   .option('--qwen-key <key>', 'Set API key for Qwen')
   .option('--gemini-key <key>', 'Set API key for Google Gemini')
   .option('--telemetry <boolean>', 'Enable or disable anonymous telemetry')
+  .option('--max-cost <usd>', 'Reject calls that would take a session over this many USD (0 to remove the limit)')
   .option('-l, --list', 'List current configuration')
   .action((options) => {
     if (options.list) {
       console.log(chalk.bold('\nCurrent Configuration:'));
       console.log(`Default Provider: ${chalk.green(config.defaultProvider)}`);
       console.log(`Telemetry: ${config.enableTelemetry ? chalk.green('Enabled') : chalk.yellow('Disabled')}`);
+      console.log(`Session budget: ${config.maxSessionCostUSD ? chalk.green(`$${config.maxSessionCostUSD}`) : chalk.dim('None')}`);
       console.log('\nAPI Keys:');
       for (const [provider, key] of Object.entries(config.apiKeys)) {
         console.log(`${provider}: ${key ? chalk.green('Configured') : chalk.red('Not configured')}`);
@@ -86,7 +88,7 @@ program
     let changed = false;
 
     if (options.provider) {
-      const validProviders = ['anthropic', 'openai', 'qwen', 'gemini', 'ollama'];
+      const validProviders = ['anthropic', 'openai', 'qwen', 'gemini', 'ollama', 'mock'];
       if (validProviders.includes(options.provider)) {
         config.defaultProvider = options.provider;
         changed = true;
@@ -127,6 +129,17 @@ program
       console.log(`Telemetry ${enableTelemetry ? chalk.green('enabled') : chalk.yellow('disabled')}`);
     }
 
+    if (options.maxCost !== undefined) {
+      const maxCost = Number(options.maxCost);
+      if (Number.isNaN(maxCost) || maxCost < 0) {
+        console.error(`Invalid budget: ${options.maxCost}. Expected a number of USD`);
+      } else {
+        config.maxSessionCostUSD = maxCost || undefined;
+        changed = true;
+        console.log(maxCost ? `Session budget set to ${chalk.green(`$${maxCost}`)}` : 'Session budget removed');
+      }
+    }
+
     if (changed) {
       saveConfig();
       console.log(chalk.bold('\nConfiguration saved!'));
@@ -157,7 +170,7 @@ async function getPipedInput(): Promise<string | null> {
 }
 
 // Helper to get API key for a provider
-function getApiKey(provider: string): string {
+function getApiKey(provider: string, required: boolean = true): string {
   // First check config
   if (config.apiKeys && config.apiKeys[provider]) {
     return config.apiKeys[provider];
@@ -167,6 +180,10 @@ function getApiKey(provider: string): string {
   const envVarName = `${provider.toUpperCase()}_API_KEY`;
   const apiKey = process.env[envVarName];
   
+  if (!apiKey && !required) {
+    return '';
+  }
+
   if (!apiKey) {
     console.error(chalk.red(`Error: No API key found for ${provider}.`));
     console.log(`Please set your API key using: ud config --${provider}-key <your-api-key>`);
@@ -177,6 +194,208 @@ function getApiKey(provider: string): string {
   return apiKey;
 }
 
+// Helper to run a request that Ctrl+C aborts instead of killing the process
+async function withInterrupt<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+
+  try {
+    return await run(controller.signal);
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+}
+
+// Helper to report a failed request and exit; requests aborted with Ctrl+C exit with the usual status 130
+function exitWithError(error: any): never {
+  if (error instanceof AbortError) {
+    console.error(chalk.yellow('Cancelled'));
+    process.exit(130);
+  }
+
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
+
+// Parameter values by command name, passed alongside the prompt
+type CommandParameterValues = Record<string, Record<string, any>>;
+
+// Helper to stream a response to stdout, replacing the spinner with live output
+async function streamResponse(llm: UniversalLLM, options: { prompt: MessageContent, systemPrompt?: string, parameters?: CommandParameterValues }): Promise<string> {
+  const spinner = createSpinner('Generating response...').start();
+  let started = false;
+  let text = '';
+
+  try {
+    await withInterrupt(async signal => {
+      for await (const event of llm.generateStream({ ...options, signal })) {
+        if (event.type === 'done') {
+          continue;
+        }
+
+        // Clear the spinner as soon as the first delta arrives
+        if (!started) {
+          spinner.clear().reset();
+          process.stdout.write('\n');
+          started = true;
+        }
+
+        if (event.type === 'thinking_delta') {
+          process.stdout.write(chalk.dim(event.thinking));
+        } else {
+          text += event.text;
+          process.stdout.write(event.text);
+        }
+      }
+    });
+  } catch (error) {
+    if (!started) {
+      spinner.error();
+    }
+    throw error;
+  }
+
+  if (!started) {
+    spinner.success();
+  }
+  process.stdout.write('\n\n');
+
+  return text;
+}
+
+// Directories searched for declarative command definitions; project commands override user commands
+const commandDirs = [
+  path.join(configDir, 'commands'),
+  path.join(process.cwd(), '.universal-developer', 'commands')
+];
+
+// Responses to repeated prompts are reused for a day unless --no-cache is given
+const cacheDir = path.join(configDir, 'cache');
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Helper to create an LLM client with custom command definitions loaded
+function createLLM(provider: Provider, model?: string, dryRun: boolean = false, cache: boolean = true): UniversalLLM {
+  // Dry runs, cassette replays (UD_CASSETTE) and the mock provider never contact a provider, so they work without an API key
+  const offline = dryRun || provider === 'mock' || Cassette.fromEnv()?.mode === 'replay';
+
+  const llm = new UniversalLLM({
+    provider,
+    apiKey: getApiKey(provider, !offline),
+    model,
+    telemetryEnabled: config.enableTelemetry,
+    maxSessionCostUSD: config.maxSessionCostUSD,
+    cache: cache ? new DiskCache({ directory: cacheDir, ttlMs: CACHE_TTL_MS }) : undefined
+  });
+
+  for (const dir of commandDirs) {
+    try {
+      llm.loadCommands(dir);
+    } catch (error) {
+      console.error(chalk.yellow(`Warning: ${error.message}`));
+    }
+  }
+
+  return llm;
+}
+
+// Collect a repeatable option into a list
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Helper to attach --image files to a prompt
+function withImages(prompt: string, images: string[] = []): MessageContent {
+  if (images.length === 0) {
+    return prompt;
+  }
+
+  for (const image of images) {
+    if (!fs.existsSync(image)) {
+      console.error(`Error: Image not found: ${image}`);
+      process.exit(1);
+    }
+  }
+
+  return [
+    { type: 'text', text: prompt },
+    ...images.map((image): ContentPart => ({ type: 'image', source: { type: 'file', path: image } }))
+  ];
+}
+
+// Manage cached responses
+const cacheCommand = program
+  .command('cache')
+  .description('Manage cached responses');
+
+cacheCommand
+  .command('clear')
+  .description('Delete every cached response')
+  .action(async () => {
+    await new DiskCache({ directory: cacheDir }).clear();
+    console.log('Response cache cleared');
+  });
+
+// List custom commands
+program
+  .command('commands')
+  .description('List custom commands loaded from command definition files')
+  .action(() => {
+    let found = false;
+
+    for (const dir of commandDirs) {
+      try {
+        const definitions = loadCommandDefinitions(dir);
+        if (definitions.length === 0) continue;
+
+        found = true;
+        console.log(chalk.bold(`\n${dir}`));
+        definitions.forEach(definition => {
+          console.log(`  /${chalk.green(definition.name)} - ${definition.description}`);
+        });
+      } catch (error) {
+        console.error(chalk.yellow(`Warning: ${error.message}`));
+      }
+    }
+
+    if (!found) {
+      console.log(`No custom commands found. Add YAML or JSON definitions to ${commandDirs.join(' or ')}`);
+    }
+    console.log();
+  });
+
+// Helper to print what a request would send, for --dry-run
+async function printExplanation(llm: UniversalLLM, options: { prompt: MessageContent, systemPrompt?: string, parameters?: CommandParameterValues }): Promise<void> {
+  try {
+    const explanation = await llm.explain(options);
+
+    console.log(chalk.bold('\nCommands:'));
+    if (explanation.commands.length === 0) {
+      console.log(chalk.dim('  (none)'));
+    }
+    explanation.commands.forEach(command => {
+      console.log(`  /${chalk.green(command.name)} ${chalk.dim(JSON.stringify(command.parameters))}`);
+    });
+
+    console.log(chalk.bold('\nTransformed prompt:'));
+    console.log(JSON.stringify(explanation.transformed, null, 2));
+
+    const { prompt, contextWindow, maxTokens } = explanation.tokens;
+    console.log(chalk.bold('\nTokens (estimated):'));
+    console.log(`  Prompt: ${prompt.total} ${chalk.dim(`(system ${prompt.systemPrompt}, history ${prompt.history}, prompt ${prompt.userPrompt}, attachments ${prompt.attachments}, tools ${prompt.tools})`)}`);
+    console.log(`  Context window: ${contextWindow ?? chalk.dim('unknown')}`);
+    console.log(`  Max output: ${maxTokens ?? chalk.dim('provider default')}`);
+
+    console.log(chalk.bold('\nRequest:'));
+    console.log(`${explanation.request.method} ${explanation.request.url}`);
+    console.log(JSON.stringify(explanation.request.headers, null, 2));
+    console.log(JSON.stringify(explanation.request.body, null, 2) + '\n');
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 // Interactive mode
 program
   .command('interactive')
@@ -184,31 +403,40 @@ program
   .description('Start an interactive session')
   .option('-p, --provider <provider>', 'LLM provider to use')
   .option('-m, --model <model>', 'Model to use')
+  .option('--no-cache', 'Always send requests instead of reusing cached responses')
   .action(async (options) => {
     const provider = options.provider || config.defaultProvider;
-    const apiKey = getApiKey(provider);
-    
-    const llm = new UniversalLLM({
-      provider,
-      apiKey,
-      model: options.model,
-      telemetryEnabled: config.enableTelemetry
-    });
+    const llm = createLLM(provider, options.model, false, options.cache);
 
     console.log(chalk.bold('\nUniversal Developer Interactive Mode'));
     console.log(chalk.dim(`Using provider: ${provider}`));
     console.log(chalk.dim('Type /exit or Ctrl+C to quit'));
-    console.log(chalk.dim('Available commands: /think, /fast, /loop, /reflect, /fork, /collapse\n'));
+    console.log(chalk.dim('Available commands: /think, /fast, /loop, /reflect, /fork, /collapse, /format, /expert'));
+    console.log(chalk.dim('Add --sticky to keep a command active for later messages; /collapse clears them\n'));
     
     const rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout
     });
 
-    let conversationHistory: { role: string, content: string }[] = [];
+    let conversationHistory: ChatMessage[] = [];
+    
+    // Ctrl+C aborts the request in progress, or quits when there is none
+    let activeRequest: AbortController | undefined;
+    rl.on('SIGINT', () => {
+      if (activeRequest) {
+        activeRequest.abort();
+      } else {
+        rl.close();
+      }
+    });
     
     const promptUser = () => {
-      rl.question('> ', async (input) => {
+      // Show pinned modes, e.g. "[think expert] > "
+      const modes = llm.getModeStack().map(mode => mode.name);
+      const modeIndicator = modes.length > 0 ? chalk.cyan(`[${modes.join(' ')}] `) : '';
+      
+      rl.question(`${modeIndicator}> `, async (input) => {
         if (input.toLowerCase() === '/exit') {
           rl.close();
           return;
@@ -221,10 +449,12 @@ program
         });
 
         const spinner = createSpinner('Generating response...').start();
+        activeRequest = new AbortController();
         
         try {
           const response = await llm.generate({
-            messages: conversationHistory
+            messages: conversationHistory,
+            signal: activeRequest.signal
           });
           
           spinner.success();
@@ -237,18 +467,20 @@ program
           });
         } catch (error) {
           spinner.error();
-          console.error(`Error: ${error.message}`);
+          console.error(error instanceof AbortError ? chalk.yellow('Cancelled') : `Error: ${error.message}`);
+          
+          // Drop the failed turn so the history keeps alternating roles
+          conversationHistory.pop();
+        } finally {
+          activeRequest = undefined;
         }
         
         promptUser();
       });
     };
     
+    // The greeting is display-only: providers expect the history to start with a user turn
     console.log(chalk.blue('Assistant:') + ' Hello! How can I help you today?\n');
-    conversationHistory.push({
-      role: 'assistant',
-      content: 'Hello! How can I help you today?'
-    });
     
     promptUser();
   });
@@ -260,7 +492,9 @@ const symbolicCommands = [
   { name: 'loop', description: 'Generate iteratively refined response' },
   { name: 'reflect', description: 'Generate response with self-reflection' },
   { name: 'fork', description: 'Generate multiple alternative responses' },
-  { name: 'collapse', description: 'Generate response using default behavior' }
+  { name: 'collapse', description: 'Generate response using default behavior' },
+  { name: 'format', description: 'Generate response in a specific output format' },
+  { name: 'expert', description: 'Generate response from a domain expert persona' }
 ];
 
 symbolicCommands.forEach(cmd => {
@@ -273,18 +507,21 @@ symbolicCommands.forEach(cmd => {
     .option('-s, --system <prompt>', 'System prompt to use')
     .option('-i, --iterations <number>', 'Number of iterations (for loop command)')
     .option('-c, --count <number>', 'Number of alternatives (for fork command)')
+    .option('-x, --execute', 'Run each alternative or refinement step as a separate request (for fork and loop commands)')
+    .option('-f, --format <format>', 'Output format: markdown, json, html, csv, text (for format command)')
+    .option('--schema <path>', 'JSON Schema file to validate JSON output against (for format command)')
+    .option('--retries <number>', 'Repair attempts for invalid JSON output (for format command)')
+    .option('-d, --domain <domain>', 'Area of expertise (for expert command)')
+    .option('-l, --level <number>', 'Expertise level from 1 to 5 (for expert command)')
+    .option('--image <path>', 'Image to include with the prompt (repeatable)', collect, [])
+    .option('--dry-run', 'Show the resolved commands and provider request without sending it')
+    .option('--no-cache', 'Always send the request instead of reusing a cached response')
     .action(async (promptArg, options) => {
       // Get provider from options or config
       const provider = options.provider || config.defaultProvider;
-      const apiKey = getApiKey(provider);
 
       // Initialize LLM
-      const llm = new UniversalLLM({
-        provider,
-        apiKey,
-        model: options.model,
-        telemetryEnabled: config.enableTelemetry
-      });
+      const llm = createLLM(provider, options.model, options.dryRun, options.cache);
 
       // Check for piped input
       const pipedInput = await getPipedInput();
@@ -303,35 +540,131 @@ symbolicCommands.forEach(cmd => {
         process.exit(1);
       }
 
-      // Build command string
+      // Build command string; values that are awkward to quote are passed as parameters instead
       let commandString = `/${cmd.name}`;
+      const parameters: CommandParameterValues = {};
       
       // Add command-specific parameters
-      if (cmd.name === 'loop' && options.iterations) {
-        commandString += ` --iterations=${options.iterations}`;
-      } else if (cmd.name === 'fork' && options.count) {
-        commandString += ` --count=${options.count}`;
+      if (cmd.name === 'loop') {
+        if (options.iterations) {
+          commandString += ` --iterations=${options.iterations}`;
+        }
+        if (options.execute) {
+          commandString += ' --mode=execute';
+        }
+      } else if (cmd.name === 'fork') {
+        if (options.count) {
+          commandString += ` --count=${options.count}`;
+        }
+        if (options.execute) {
+          commandString += ' --mode=execute';
+        }
+      } else if (cmd.name === 'format') {
+        if (options.format) {
+          commandString += ` --format=${options.format}`;
+        }
+        if (options.schema) {
+          parameters.format = { schema: JSON.parse(fs.readFileSync(options.schema, 'utf-8')) };
+        }
+        if (options.retries) {
+          commandString += ` --retries=${options.retries}`;
+        }
+      } else if (cmd.name === 'expert') {
+        parameters.expert = {
+          ...(options.domain ? { domain: options.domain } : {}),
+          ...(options.level ? { level: options.level } : {})
+        };
       }
       
-      // Add the prompt
-      const fullPrompt = `${commandString} ${prompt}`;
+      // Add the prompt, with any images
+      const fullPrompt = withImages(`${commandString} ${prompt}`, options.image);
+      
+      if (options.dryRun) {
+        await printExplanation(llm, { systemPrompt: options.system, prompt: fullPrompt, parameters });
+        return;
+      }
       
       // Show what's happening
       console.log(chalk.dim(`Using provider: ${provider}`));
-      const spinner = createSpinner('Generating response...').start();
+      
+      // Executed forks return separate alternatives, printed one after another
+      if (cmd.name === 'fork' && options.execute) {
+        const spinner = createSpinner('Generating alternatives...').start();
+        
+        try {
+          const alternatives = await withInterrupt(signal => llm.fork({
+            systemPrompt: options.system,
+            prompt: fullPrompt,
+            signal
+          }));
+          
+          spinner.success();
+          alternatives.forEach((alternative, index) => {
+            console.log(`\n${chalk.bold(`Alternative ${index + 1}:`)}\n${alternative.text}`);
+          });
+          console.log();
+        } catch (error) {
+          spinner.error();
+          exitWithError(error);
+        }
+        return;
+      }
+      
+      // Executed loops show each draft and critique before the final revision
+      if (cmd.name === 'loop' && options.execute) {
+        const spinner = createSpinner('Refining response...').start();
+        
+        try {
+          const result = await withInterrupt(signal => llm.loop({
+            systemPrompt: options.system,
+            prompt: fullPrompt,
+            signal
+          }));
+          
+          spinner.success();
+          // Calls answered by middleware or the cache have no trace
+          const steps = result.trace?.steps ?? [];
+          const finalStep = [...steps].reverse().find(step => step.type !== 'critique');
+          steps.filter(step => step !== finalStep).forEach(step => {
+            console.log(chalk.dim(`\n[${step.type} ${step.iteration}]\n${step.text}`));
+          });
+          console.log('\n' + result.text + '\n');
+        } catch (error) {
+          spinner.error();
+          exitWithError(error);
+        }
+        return;
+      }
+      
+      // JSON output is validated against the schema, which needs the complete response
+      if (cmd.name === 'format' && options.format === 'json') {
+        const spinner = createSpinner('Generating response...').start();
+        
+        try {
+          const result = await withInterrupt(signal => llm.generateDetailed({
+            systemPrompt: options.system,
+            prompt: fullPrompt,
+            parameters,
+            signal
+          }));
+          
+          spinner.success();
+          console.log('\n' + JSON.stringify(result.parsed, null, 2) + '\n');
+        } catch (error) {
+          spinner.error();
+          exitWithError(error);
+        }
+        return;
+      }
       
       try {
-        const response = await llm.generate({
+        await streamResponse(llm, {
           systemPrompt: options.system,
-          prompt: fullPrompt
+          prompt: fullPrompt,
+          parameters
         });
-        
-        spinner.success();
-        console.log('\n' + response + '\n');
       } catch (error) {
-        spinner.error();
-        console.error(`Error: ${error.message}`);
-        process.exit(1);
+        exitWithError(error);
       }
     });
 });
@@ -343,6 +676,9 @@ program
   .option('-m, --model <model>', 'Model to use')
   .option('-s, --system <prompt>', 'System prompt to use')
   .option('-c, --command <command>', 'Symbolic command to use')
+  .option('--image <path>', 'Image to include with the prompt (repeatable)', collect, [])
+  .option('--dry-run', 'Show the resolved commands and provider request without sending it')
+  .option('--no-cache', 'Always send the request instead of reusing a cached response')
   .action(async (promptArg, options) => {
     if (!promptArg && !process.stdin.isTTY) {
       // No prompt argument but has piped input
@@ -360,38 +696,31 @@ program
 
     // Get provider from options or config
     const provider = options.provider || config.defaultProvider;
-    const apiKey = getApiKey(provider);
 
     // Initialize LLM
-    const llm = new UniversalLLM({
-      provider,
-      apiKey,
-      model: options.model,
-      telemetryEnabled: config.enableTelemetry
-    });
+    const llm = createLLM(provider, options.model, options.dryRun, options.cache);
 
     // Default to think command if none specified
     const command = options.command || 'think';
     
-    // Format prompt with command
-    const fullPrompt = `/${command} ${promptArg}`;
+    // Format prompt with command, with any images
+    const fullPrompt = withImages(`/${command} ${promptArg}`, options.image);
+    
+    if (options.dryRun) {
+      await printExplanation(llm, { systemPrompt: options.system, prompt: fullPrompt });
+      return;
+    }
     
     // Show what's happening
     console.log(chalk.dim(`Using provider: ${provider}`));
-    const spinner = createSpinner('Generating response...').start();
     
     try {
-      const response = await llm.generate({
+      await streamResponse(llm, {
         systemPrompt: options.system,
         prompt: fullPrompt
       });
-      
-      spinner.success();
-      console.log('\n' + response + '\n');
     } catch (error) {
-      spinner.error();
-      console.error(`Error: ${error.message}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
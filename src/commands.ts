@@ -0,0 +1,218 @@
+// universal-developer/src/commands.ts
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SymbolicCommand, CommandParameter, CommandParameterType, TransformedPrompt } from './adapters/base';
+
+/**
+ * Declarative command definition, loaded from a YAML or JSON file
+ *
+ * Templates may reference parameters as `{name}`; the user prompt template
+ * may also reference the prompt itself as `{prompt}`.
+ */
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  aliases?: string[];
+  parameters?: CommandParameter[];
+  cacheable?: boolean; // False to keep responses out of the response cache
+  systemPrompt?: string;
+  userPrompt?: string;
+  modelParameters?: Record<string, any>;
+  providers?: Record<string, {
+    systemPrompt?: string;
+    userPrompt?: string;
+    modelParameters?: Record<string, any>;
+  }>;
+}
+
+/**
+ * Raised when a command definition file cannot be parsed or is invalid
+ */
+export class CommandDefinitionError extends Error {
+  constructor(public readonly source: string, message: string) {
+    super(`Invalid command definition in ${source}: ${message}`);
+    this.name = 'CommandDefinitionError';
+  }
+}
+
+const DEFINITION_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const PARAMETER_TYPES: CommandParameterType[] = ['string', 'number', 'boolean', 'enum', 'range', 'json'];
+
+/**
+ * Parse and validate a command definition
+ * @param content File content
+ * @param source File name, used to pick the format and in error messages
+ * @returns One definition per command declared in the file
+ */
+export function parseCommandDefinitions(content: string, source: string): CommandDefinition[] {
+  let data: any;
+  try {
+    data = path.extname(source).toLowerCase() === '.json' ? JSON.parse(content) : loadYaml(source).parse(content);
+  } catch (error) {
+    throw error instanceof CommandDefinitionError ? error : new CommandDefinitionError(source, error.message);
+  }
+
+  // A file may declare a single command or a list of them
+  const definitions = Array.isArray(data) ? data : [data];
+
+  return definitions.map(definition => validateDefinition(definition, source));
+}
+
+/**
+ * The yaml package is only needed for YAML definitions, so it is loaded on first use
+ */
+function loadYaml(source: string): typeof import('yaml') {
+  try {
+    return require('yaml');
+  } catch (error) {
+    throw new CommandDefinitionError(
+      source,
+      'YAML definitions need the "yaml" package; install it with `npm install yaml` or write the definition as JSON'
+    );
+  }
+}
+
+/**
+ * Load every command definition file in a directory
+ * @param directory Directory containing .yaml, .yml or .json files
+ * @returns Definitions in file name order; empty if the directory does not exist
+ */
+export function loadCommandDefinitions(directory: string): CommandDefinition[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  return fs.readdirSync(directory)
+    .filter(file => DEFINITION_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort()
+    .flatMap(file => {
+      const filePath = path.join(directory, file);
+      return parseCommandDefinitions(fs.readFileSync(filePath, 'utf-8'), filePath);
+    });
+}
+
+/**
+ * Build a symbolic command from a definition. Provider overrides are chosen
+ * from the provider of the adapter running the command.
+ */
+export function createCommandFromDefinition(definition: CommandDefinition): SymbolicCommand {
+  return {
+    name: definition.name,
+    description: definition.description,
+    aliases: definition.aliases,
+    parameters: definition.parameters,
+    cacheable: definition.cacheable,
+    transform: async (prompt: string, options: any): Promise<TransformedPrompt> => {
+      const override = definition.providers?.[options.provider] || {};
+      const values = { ...options.parameters, prompt };
+
+      const systemTemplate = override.systemPrompt ?? definition.systemPrompt;
+      const userTemplate = override.userPrompt ?? definition.userPrompt;
+
+      return {
+        systemPrompt: systemTemplate
+          ? `${options.systemPrompt || ''}\n${interpolate(systemTemplate, values).trim()}`
+          : options.systemPrompt || '',
+        userPrompt: userTemplate ? interpolate(userTemplate, values) : prompt,
+        modelParameters: {
+          ...definition.modelParameters,
+          ...override.modelParameters
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Replace `{name}` placeholders with values; unknown placeholders are kept as-is
+ */
+function interpolate(template: string, values: Record<string, any>): string {
+  return template.replace(/\{([a-zA-Z0-9_]+)\}/g, (placeholder, name) =>
+    values[name] !== undefined ? String(values[name]) : placeholder
+  );
+}
+
+// Checks a parsed definition and returns a copy with defaults filled in
+function validateDefinition(definition: any, source: string): CommandDefinition {
+  if (typeof definition !== 'object' || definition === null) {
+    throw new CommandDefinitionError(source, 'expected an object');
+  }
+
+  if (typeof definition.name !== 'string' || !/^[a-zA-Z0-9_]+(\.[a-zA-Z0-9_]+)*$/.test(definition.name)) {
+    throw new CommandDefinitionError(
+      source,
+      'name must contain only letters, digits and underscores, optionally namespaced with dots'
+    );
+  }
+
+  if (typeof definition.description !== 'string') {
+    throw new CommandDefinitionError(source, `command "${definition.name}" is missing a description`);
+  }
+
+  if (definition.aliases !== undefined &&
+      (!Array.isArray(definition.aliases) || definition.aliases.some((alias: any) => typeof alias !== 'string'))) {
+    throw new CommandDefinitionError(source, `aliases of "${definition.name}" must be a list of strings`);
+  }
+
+  if (definition.cacheable !== undefined && typeof definition.cacheable !== 'boolean') {
+    throw new CommandDefinitionError(source, `cacheable of "${definition.name}" must be true or false`);
+  }
+
+  if (definition.parameters !== undefined && !Array.isArray(definition.parameters)) {
+    throw new CommandDefinitionError(source, `parameters of "${definition.name}" must be a list`);
+  }
+
+  (definition.parameters || []).forEach((param: any) => {
+    if (typeof param?.name !== 'string') {
+      throw new CommandDefinitionError(source, `every parameter of "${definition.name}" needs a name`);
+    }
+    if (param.type !== undefined && !PARAMETER_TYPES.includes(param.type)) {
+      throw new CommandDefinitionError(
+        source,
+        `parameter "${param.name}" has unknown type "${param.type}" (expected ${PARAMETER_TYPES.join(', ')})`
+      );
+    }
+    if (param.type === 'enum' && !Array.isArray(param.values)) {
+      throw new CommandDefinitionError(source, `enum parameter "${param.name}" must list its values`);
+    }
+  });
+
+  validatePrompts(definition, `"${definition.name}"`, source);
+
+  if (definition.providers !== undefined) {
+    if (!isObject(definition.providers)) {
+      throw new CommandDefinitionError(source, `providers of "${definition.name}" must map provider names to overrides`);
+    }
+    Object.entries(definition.providers).forEach(([provider, override]) => {
+      if (!isObject(override)) {
+        throw new CommandDefinitionError(source, `the ${provider} override of "${definition.name}" must be an object`);
+      }
+      validatePrompts(override, `the ${provider} override of "${definition.name}"`, source);
+    });
+  }
+
+  return {
+    ...definition,
+    ...(definition.parameters ? {
+      parameters: definition.parameters.map((param: any) => ({ ...param, description: param.description ?? '' }))
+    } : {})
+  };
+}
+
+// Checks the prompt templates and model parameters of a definition or provider override
+function validatePrompts(definition: any, owner: string, source: string): void {
+  ['systemPrompt', 'userPrompt'].forEach(field => {
+    if (definition[field] !== undefined && typeof definition[field] !== 'string') {
+      throw new CommandDefinitionError(source, `${field} of ${owner} must be a string`);
+    }
+  });
+
+  if (definition.modelParameters !== undefined && !isObject(definition.modelParameters)) {
+    throw new CommandDefinitionError(source, `modelParameters of ${owner} must be an object`);
+  }
+}
+
+function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
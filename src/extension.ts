@@ -13,6 +13,8 @@ interface SymbolicCommand {
     description: string;
     required?: boolean;
     default?: any;
+    min?: number;
+    max?: number;
   }[];
   examples: string[];
   provider?: {
@@ -48,7 +50,9 @@ export function activate(context: vscode.ExtensionContext) {
         if (parameters) {
           Object.entries(parameters).forEach(([key, value]) => {
             if (value !== undefined && value !== null && value !== '') {
-              commandString += ` --${key}=${value}`;
+              // Quote values containing whitespace so they parse as one parameter
+              const formattedValue = /\s/.test(String(value)) ? `"${value}"` : value;
+              commandString += ` --${key}=${formattedValue}`;
             }
           });
         }
@@ -380,6 +384,14 @@ async function collectCommandParameters(command: SymbolicCommand): Promise<Recor
         if (param.required && !text) {
           return `${param.name} is required`;
         }
+        if (text && (param.min !== undefined || param.max !== undefined)) {
+          const value = Number(text);
+          if (Number.isNaN(value) ||
+              (param.min !== undefined && value < param.min) ||
+              (param.max !== undefined && value > param.max)) {
+            return `${param.name} must be a number between ${param.min} and ${param.max}`;
+          }
+        }
         return null;
       }
     });
@@ -750,7 +762,7 @@ function getCommandChainBuilderHtml() {
           const params = Object.entries(cmd.parameters || {});
           if (params.length > 0) {
             const paramText = params
-              .map(([key, value]) => \`--\${key}=\${value}\`)
+              .map(([key, value]) => /\\s/.test(value) ? \`--\${key}="\${value}"\` : \`--\${key}=\${value}\`)
               .join(' ');
             commandText += ' ' + paramText;
           }
@@ -1209,9 +1221,19 @@ const SYMBOLIC_COMMANDS: SymbolicCommand[] = [
   {
     name: 'reflect',
     description: 'Trigger meta-analysis of outputs',
+    parameters: [
+      {
+        name: 'depth',
+        description: 'Rounds of reflection, each examining the one before',
+        required: false,
+        default: 1,
+        min: 1,
+        max: 5
+      }
+    ],
     examples: [
       '/reflect How might AI impact the future of work?',
-      '/reflect What are the ethical implications of genetic engineering?'
+      '/reflect --depth=2 What are the ethical implications of genetic engineering?'
     ],
     provider: {
       claude: true,
@@ -1236,6 +1258,66 @@ const SYMBOLIC_COMMANDS: SymbolicCommand[] = [
       ollama: true
     }
   },
+  {
+    name: 'expert',
+    description: 'Activate domain expertise persona',
+    parameters: [
+      {
+        name: 'domain',
+        description: 'Area of expertise',
+        required: true
+      },
+      {
+        name: 'level',
+        description: 'Expertise level (1-5)',
+        required: false,
+        default: 5,
+        min: 1,
+        max: 5
+      }
+    ],
+    examples: [
+      '/expert --domain=cryptography Review this key exchange protocol.',
+      '/expert --domain="distributed systems" --level=4 How should we shard this database?'
+    ],
+    provider: {
+      claude: true,
+      openai: true,
+      qwen: true,
+      gemini: true,
+      ollama: true
+    }
+  },
+  {
+    name: 'format',
+    description: 'Control the output format of the response',
+    parameters: [
+      {
+        name: 'format',
+        description: 'Output format: markdown, json, html, csv or text',
+        required: false,
+        default: 'markdown'
+      },
+      {
+        name: 'retries',
+        description: 'Number of times to re-prompt with validation errors before failing',
+        required: false,
+        min: 0,
+        max: 5
+      }
+    ],
+    examples: [
+      '/format --format=json List three programming languages with their release years.',
+      '/format --format=csv Compare the planets of the solar system by mass and radius.'
+    ],
+    provider: {
+      claude: true,
+      openai: true,
+      qwen: true,
+      gemini: true,
+      ollama: true
+    }
+  },
   {
     name: 'fork',
     description: 'Generate multiple alternative responses',
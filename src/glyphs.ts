@@ -0,0 +1,95 @@
+// universal-developer/src/glyphs.ts
+
+/**
+ * Glyph aliases for a universal runtime command, from the Unified
+ * Command-Glyph Registry in universal-runtime.md
+ */
+export interface GlyphEntry {
+  command: string;
+  commandGlyph: string;
+  runtimeGlyph: string;
+}
+
+/**
+ * Built-in glyph registry. Some glyphs appear more than once in the
+ * published registry; the first entry listed wins.
+ */
+export const GLYPH_REGISTRY: GlyphEntry[] = [
+  { command: 'reflect.core', commandGlyph: '🧠', runtimeGlyph: '🜏' },
+  { command: 'reflect.trace', commandGlyph: '🔍', runtimeGlyph: '∴' },
+  { command: 'reflect.attention', commandGlyph: '👁️', runtimeGlyph: '⧉' },
+  { command: 'collapse.detect', commandGlyph: '⚠️', runtimeGlyph: '⟁' },
+  { command: 'collapse.recover', commandGlyph: '🛠️', runtimeGlyph: '🝚' },
+  { command: 'collapse.stabilize', commandGlyph: '⚖️', runtimeGlyph: '☍' },
+  { command: 'shell.lock', commandGlyph: '🔒', runtimeGlyph: '⧖' },
+  { command: 'shell.encrypt', commandGlyph: '🔐', runtimeGlyph: '⧗' },
+  { command: 'shell.isolate', commandGlyph: '🧪', runtimeGlyph: '⊘' },
+  { command: 'inject.detect', commandGlyph: '🕵️', runtimeGlyph: '↯' },
+  { command: 'inject.neutralize', commandGlyph: '🧹', runtimeGlyph: '⊕' },
+  { command: 'anchor.identity', commandGlyph: '⚓', runtimeGlyph: '↻' },
+  { command: 'anchor.context', commandGlyph: '📌', runtimeGlyph: '≡' },
+  { command: 'align.check', commandGlyph: '✓', runtimeGlyph: '⇌' },
+  { command: 'align.correct', commandGlyph: '🔧', runtimeGlyph: '⟢' },
+  { command: 'filter.detect', commandGlyph: '🔍', runtimeGlyph: '⊗' },
+  { command: 'filter.explain', commandGlyph: '📋', runtimeGlyph: '⊚' },
+  { command: 'gradient.detect', commandGlyph: '📉', runtimeGlyph: '∇' },
+  { command: 'gradient.trace', commandGlyph: '🔍📉', runtimeGlyph: '∰' },
+  { command: 'fork.detect', commandGlyph: '🔱', runtimeGlyph: '⦿' },
+  { command: 'fork.disambiguate', commandGlyph: '🧩', runtimeGlyph: '≜' },
+  { command: 'loop.detect', commandGlyph: '🔄', runtimeGlyph: '⟲' },
+  { command: 'loop.break', commandGlyph: '✂️', runtimeGlyph: '⊗' },
+  { command: 'resolve.conflict', commandGlyph: '⚔️', runtimeGlyph: '⚖️' },
+  { command: 'resolve.ambiguity', commandGlyph: '🌫️', runtimeGlyph: '🧠⊕' },
+  { command: 'uncertainty.quantify', commandGlyph: '❓', runtimeGlyph: '🧮' },
+  { command: 'uncertainty.source', commandGlyph: '🔍❓', runtimeGlyph: '👁️❓' },
+  { command: 'hallucinate.detect', commandGlyph: '👻', runtimeGlyph: '🜄' },
+  { command: 'hallucinate.trace', commandGlyph: '🔍👻', runtimeGlyph: '🜂' },
+  { command: 'prefer.map', commandGlyph: '🗺️', runtimeGlyph: '🝔' },
+  { command: 'prefer.update', commandGlyph: '🔄❤️', runtimeGlyph: '🝳' },
+  { command: 'prompt.parse', commandGlyph: '📝', runtimeGlyph: '⌽' },
+  { command: 'prompt.meta', commandGlyph: '🔬', runtimeGlyph: '🜃' },
+  { command: 'focus.direct', commandGlyph: '🎯', runtimeGlyph: '🝐' },
+  { command: 'focus.expand', commandGlyph: '🔎', runtimeGlyph: '⌬' },
+  { command: 'seed.prime', commandGlyph: '🌱', runtimeGlyph: '∴' },
+  { command: 'seed.recursive', commandGlyph: '🌱🔄', runtimeGlyph: '∞' },
+  { command: 'arch.explain', commandGlyph: '🏗️', runtimeGlyph: '🏛️' },
+  { command: 'arch.trace', commandGlyph: '🔍🏗️', runtimeGlyph: '🏛️🔍' },
+  { command: 'echo.trace', commandGlyph: '🔊', runtimeGlyph: '🝚' },
+  { command: 'echo.reset', commandGlyph: '🧹🔊', runtimeGlyph: '⊘🔄' },
+  { command: 'mark.probe', commandGlyph: '📍', runtimeGlyph: '🜚' },
+  { command: 'mark.analyze', commandGlyph: '🔬📍', runtimeGlyph: '🜚🔬' },
+  { command: 'meta.recurse', commandGlyph: '🔄🧠', runtimeGlyph: '🜏∞' },
+  { command: 'ghost.detect', commandGlyph: '👻🔍', runtimeGlyph: '🜄🔍' },
+  { command: 'ghost.invoke', commandGlyph: '👻⚡', runtimeGlyph: '🜄⚡' },
+  { command: 'bind.activate', commandGlyph: '🔗', runtimeGlyph: '⧗⧉' },
+  { command: 'flow.trace', commandGlyph: '🌊', runtimeGlyph: '≡⇌' },
+  { command: 'boundary.test', commandGlyph: '🧱', runtimeGlyph: '⟐' },
+  { command: 'compress.glyph', commandGlyph: '🗜️', runtimeGlyph: '⧖Σ' },
+  { command: 'field.unify', commandGlyph: '⚛️', runtimeGlyph: '🜏⊕' },
+  { command: 'witness.observe', commandGlyph: '👁️✨', runtimeGlyph: '𓂀' }
+];
+
+const glyphIndex = new Map<string, string>();
+
+GLYPH_REGISTRY.forEach(entry => {
+  [entry.commandGlyph, entry.runtimeGlyph].forEach(glyph => {
+    const key = normalizeGlyph(glyph);
+    if (!glyphIndex.has(key)) {
+      glyphIndex.set(key, entry.command);
+    }
+  });
+});
+
+/**
+ * Resolve a glyph to its canonical command name
+ * @param glyph Glyph with or without its leading slash, e.g. `/🧠` or `🜏`
+ * @returns Canonical command name such as `reflect.core`, or undefined if unknown
+ */
+export function resolveGlyph(glyph: string): string | undefined {
+  return glyphIndex.get(normalizeGlyph(glyph.replace(/^\//, '')));
+}
+
+// Emoji are typed both with and without the variation selector (e.g. ⚠ and ⚠️)
+function normalizeGlyph(glyph: string): string {
+  return glyph.replace(/\uFE0F/g, '');
+}
@@ -0,0 +1,418 @@
+// universal-developer/src/grammar.ts
+
+import { resolveGlyph } from './glyphs';
+
+export type GrammarVendor = 'anthropic' | 'openai' | 'gemini' | 'qwen' | 'universal';
+
+/**
+ * How a runtime operation is written in each vendor's grammar: an XML tag
+ * for Claude, a slash command for GPT and Qwen, an @ directive for Gemini
+ */
+export interface GrammarOperation {
+  operation: string;
+  anthropic?: string;
+  openai?: string;
+  gemini?: string;
+  qwen?: string;
+}
+
+/**
+ * A construct the target vendor has no native support for
+ */
+export interface EmulatedConstruct {
+  operation: string;
+  construct: string;
+  reason: string;
+}
+
+export interface GrammarTransformResult {
+  content: string;
+  operations: string[];
+  emulated: EmulatedConstruct[];
+}
+
+/**
+ * Operations from the Core Runtime Command Registry in universal-runtime.md
+ */
+export const GRAMMAR_OPERATIONS: GrammarOperation[] = [
+  { operation: 'reflect.core', anthropic: 'reflect', openai: 'introspection', gemini: 'reflect', qwen: 'reflect' },
+  { operation: 'reflect.trace', anthropic: 'thinking', openai: 'trace_reasoning', gemini: 'trace', qwen: 'trace' },
+  { operation: 'reflect.attention', anthropic: 'attention', openai: 'attention_analysis', gemini: 'focus', qwen: 'attention' },
+  { operation: 'collapse.detect', anthropic: 'detect_loop', openai: 'detect_loop', gemini: 'detect_recursion', qwen: 'detect_loop' },
+  { operation: 'collapse.recover', anthropic: 'recover', openai: 'error_recovery', gemini: 'recover', qwen: 'recover' },
+  { operation: 'collapse.stabilize', anthropic: 'stabilize', openai: 'stabilize_reasoning', gemini: 'stabilize', qwen: 'stabilize' },
+  { operation: 'shell.lock', anthropic: 'lock', openai: 'lock_reasoning', gemini: 'lock', qwen: 'lock' },
+  { operation: 'shell.encrypt', anthropic: 'protect', openai: 'protect_reasoning', gemini: 'protect', qwen: 'protect' },
+  { operation: 'shell.isolate', anthropic: 'isolate', openai: 'isolate_context', gemini: 'isolate', qwen: 'isolate' },
+  { operation: 'inject.detect', anthropic: 'detect_injection', openai: 'detect_injection', gemini: 'detect_injection', qwen: 'detect_injection' },
+  { operation: 'inject.neutralize', anthropic: 'neutralize', openai: 'neutralize_injection', gemini: 'neutralize', qwen: 'neutralize' },
+  { operation: 'anchor.identity', anthropic: 'anchor_identity', openai: 'anchor_identity', gemini: 'anchor_identity', qwen: 'anchor_identity' },
+  { operation: 'anchor.context', anthropic: 'anchor_context', openai: 'anchor_context', gemini: 'anchor_context', qwen: 'anchor_context' },
+  { operation: 'align.check', anthropic: 'check_alignment', openai: 'check_alignment', gemini: 'check_alignment', qwen: 'check_alignment' },
+  { operation: 'align.correct', anthropic: 'correct_alignment', openai: 'correct_alignment', gemini: 'correct_alignment', qwen: 'correct_alignment' },
+  { operation: 'filter.detect', anthropic: 'detect_filter', openai: 'detect_filter', gemini: 'detect_filter', qwen: 'detect_filter' },
+  { operation: 'filter.explain', anthropic: 'explain_filter', openai: 'explain_filter', gemini: 'explain_filter', qwen: 'explain_filter' },
+  { operation: 'gradient.detect', anthropic: 'detect_drift', openai: 'detect_drift', gemini: 'detect_drift', qwen: 'detect_drift' },
+  { operation: 'gradient.trace', anthropic: 'trace_drift', openai: 'trace_drift', gemini: 'trace_drift', qwen: 'trace_drift' },
+  { operation: 'fork.detect', anthropic: 'detect_fork', openai: 'detect_fork', gemini: 'detect_fork', qwen: 'detect_fork' },
+  { operation: 'fork.disambiguate', anthropic: 'disambiguate', openai: 'disambiguate', gemini: 'disambiguate', qwen: 'disambiguate' },
+  { operation: 'loop.detect', anthropic: 'detect_recursion', openai: 'detect_recursion', gemini: 'detect_loop', qwen: 'detect_recursion' },
+  { operation: 'loop.break', anthropic: 'break_recursion', openai: 'break_recursion', gemini: 'break_loop', qwen: 'break_recursion' },
+  { operation: 'resolve.conflict', anthropic: 'resolve_conflict', openai: 'resolve_conflict', gemini: 'resolve_conflict', qwen: 'resolve_conflict' },
+  { operation: 'resolve.ambiguity', anthropic: 'resolve_ambiguity', openai: 'resolve_ambiguity', gemini: 'resolve_ambiguity', qwen: 'resolve_ambiguity' },
+  { operation: 'uncertainty.quantify', anthropic: 'quantify_uncertainty', openai: 'quantify_uncertainty', gemini: 'quantify_uncertainty', qwen: 'quantify_uncertainty' },
+  { operation: 'uncertainty.source', anthropic: 'uncertainty_source', openai: 'uncertainty_source', gemini: 'uncertainty_source', qwen: 'uncertainty_source' },
+  { operation: 'hallucinate.detect', anthropic: 'detect_hallucination', openai: 'detect_hallucination', gemini: 'detect_hallucination', qwen: 'detect_hallucination' },
+  { operation: 'hallucinate.trace', anthropic: 'trace_hallucination', openai: 'trace_hallucination', gemini: 'trace_hallucination', qwen: 'trace_hallucination' },
+  { operation: 'prefer.map', anthropic: 'map_preferences', openai: 'map_preferences', gemini: 'map_preferences', qwen: 'map_preferences' },
+  { operation: 'prefer.update', anthropic: 'update_preferences', openai: 'update_preferences', gemini: 'update_preferences', qwen: 'update_preferences' },
+  { operation: 'prompt.parse', anthropic: 'parse_prompt', openai: 'parse_prompt', gemini: 'parse_prompt', qwen: 'parse_prompt' },
+  { operation: 'prompt.meta', anthropic: 'analyze_meta', openai: 'analyze_meta', gemini: 'analyze_meta', qwen: 'analyze_meta' },
+  { operation: 'focus.direct', anthropic: 'direct_focus', openai: 'direct_focus', gemini: 'direct_focus', qwen: 'direct_focus' },
+  { operation: 'focus.expand', anthropic: 'expand_focus', openai: 'expand_focus', gemini: 'expand_focus', qwen: 'expand_focus' },
+  { operation: 'seed.prime', anthropic: 'prime', openai: 'prime', gemini: 'prime', qwen: 'prime' },
+  { operation: 'seed.recursive', anthropic: 'recursive_seed', openai: 'recursive_seed', gemini: 'recursive_seed', qwen: 'recursive_seed' },
+  { operation: 'arch.explain', anthropic: 'explain_architecture', openai: 'explain_architecture', gemini: 'explain_architecture', qwen: 'explain_architecture' },
+  { operation: 'arch.trace', anthropic: 'trace_processing', openai: 'trace_processing', gemini: 'trace_processing', qwen: 'trace_processing' },
+  { operation: 'echo.trace', anthropic: 'trace_influence', openai: 'trace_influence', gemini: 'trace_influence', qwen: 'trace_influence' },
+  { operation: 'echo.reset', anthropic: 'reset_conditioning', openai: 'reset_conditioning', gemini: 'reset_conditioning', qwen: 'reset_conditioning' },
+  { operation: 'mark.probe', anthropic: 'probe_classifier', openai: 'probe_classifier', gemini: 'probe_classifier', qwen: 'probe_classifier' },
+  { operation: 'mark.analyze', anthropic: 'analyze_classifier', openai: 'analyze_classifier', gemini: 'analyze_classifier', qwen: 'analyze_classifier' },
+  { operation: 'fast' }
+];
+
+const VENDORS: GrammarVendor[] = ['anthropic', 'openai', 'gemini', 'qwen', 'universal'];
+const VENDOR_ALIASES: Record<string, GrammarVendor> = { claude: 'anthropic', gpt: 'openai' };
+
+// Operations each vendor supports natively (see vendor_implementations in universal-runtime.md)
+const NATIVE_SUPPORT: Record<GrammarVendor, string[]> = {
+  anthropic: ['reflect.core', 'reflect.trace', 'shell.lock'],
+  openai: [],
+  gemini: [],
+  qwen: ['reflect.core', 'reflect.trace', 'fast'],
+  universal: ['reflect.core', 'reflect.trace', 'fast']
+};
+
+// Built-in commands for operations in the universal grammar; others keep their dotted name
+const UNIVERSAL_COMMANDS: Record<string, string> = {
+  'reflect.core': 'reflect',
+  'reflect.trace': 'think',
+  'fast': 'fast'
+};
+
+// Qwen3 switches thinking on and off with a /think or /no_think suffix
+const QWEN_SWITCHES: Record<string, string> = {
+  'reflect.trace': 'think',
+  'fast': 'no_think'
+};
+
+// Used for operations a vendor has no syntax for at all
+const EMULATION_INSTRUCTIONS: Record<string, string> = {
+  'fast': 'Respond directly and concisely, without extended reasoning.'
+};
+
+interface GrammarToken {
+  operation: string;
+  construct: string;
+}
+
+interface ScopedSegment extends GrammarToken {
+  children: Segment[];
+}
+
+type Segment = string | ScopedSegment;
+
+interface ParsedContent {
+  // Operations that apply to the whole prompt, e.g. leading commands
+  directives: GrammarToken[];
+  // Text, with Claude tags kept as scoped segments
+  segments: Segment[];
+}
+
+/**
+ * Rewrites vendor-specific runtime grammar in prompts, e.g. Claude
+ * `<thinking>` tags, GPT `/trace_reasoning`, Gemini `@reflect` and Qwen
+ * `/think` suffixes, into another vendor's grammar or the universal
+ * `/command` form understood by UniversalLLM.
+ */
+export class GrammarTransformationEngine {
+  private operations: Map<string, GrammarOperation> = new Map();
+  private syntax: Record<string, Map<string, string>> = {};
+
+  constructor() {
+    GRAMMAR_OPERATIONS.forEach(entry => {
+      this.operations.set(entry.operation, entry);
+      (['anthropic', 'openai', 'gemini', 'qwen'] as const).forEach(vendor => {
+        const name = entry[vendor];
+        if (name) {
+          this.syntax[vendor] = this.syntax[vendor] || new Map();
+          this.syntax[vendor].set(name, entry.operation);
+        }
+      });
+    });
+  }
+
+  /**
+   * Transform runtime grammar from one vendor to another
+   * @param content Prompt containing source vendor grammar
+   * @param sourceVendor Vendor the prompt was written for
+   * @param targetVendor Vendor to rewrite the prompt for, or 'universal'
+   * @returns Rewritten prompt, the operations found and any constructs that had to be emulated
+   */
+  public transform(content: string, sourceVendor: string, targetVendor: string): GrammarTransformResult {
+    const source = this.resolveVendor(sourceVendor);
+    const target = this.resolveVendor(targetVendor);
+
+    const parsed = this.parse(content, source);
+    const tokens = [...parsed.directives, ...collectScoped(parsed.segments)];
+    const operations = [...new Set(tokens.map(token => token.operation))];
+
+    if (source === target) {
+      return { content, operations, emulated: [] };
+    }
+
+    const emulated: EmulatedConstruct[] = [];
+    const transformed = target === 'anthropic'
+      ? this.renderTags(parsed, emulated)
+      : this.renderDirectives(parsed, target, emulated);
+
+    return { content: transformed, operations, emulated };
+  }
+
+  private resolveVendor(vendor: string): GrammarVendor {
+    const normalized = vendor.toLowerCase();
+    const resolved = VENDOR_ALIASES[normalized] || normalized;
+
+    if (!VENDORS.includes(resolved as GrammarVendor)) {
+      throw new Error(`Unsupported vendor: ${vendor} (expected ${VENDORS.join(', ')})`);
+    }
+
+    return resolved as GrammarVendor;
+  }
+
+  private parse(content: string, source: GrammarVendor): ParsedContent {
+    if (source === 'anthropic') {
+      return { directives: [], segments: this.parseTags(content) };
+    }
+
+    const directives: GrammarToken[] = [];
+    let text = content;
+    let suffix: GrammarToken | undefined;
+
+    if (source === 'qwen') {
+      const match = text.match(/\s*\/(think|no_think)\s*$/);
+      if (match) {
+        suffix = { operation: match[1] === 'think' ? 'reflect.trace' : 'fast', construct: `/${match[1]}` };
+        text = text.slice(0, match.index);
+      }
+    }
+
+    // Commands and directives are recognized at the start of a line
+    const lines: string[] = [];
+    text.split('\n').forEach(line => {
+      let rest = line;
+      let found = false;
+      let match: { token: GrammarToken, rest: string } | null;
+
+      while ((match = this.matchDirective(rest, source)) !== null) {
+        directives.push(match.token);
+        rest = match.rest;
+        found = true;
+      }
+
+      if (!found || rest.trim() !== '') {
+        lines.push(rest);
+      }
+    });
+
+    if (suffix) {
+      directives.push(suffix);
+    }
+
+    return { directives, segments: [lines.join('\n')] };
+  }
+
+  private matchDirective(line: string, source: GrammarVendor): { token: GrammarToken, rest: string } | null {
+    const patterns: Record<string, RegExp> = {
+      universal: /^[ \t]*(\.p\/[a-zA-Z0-9_]+(?:\/[a-zA-Z0-9_]+)*\{\}|\/(?:[a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)*|[^\sa-zA-Z0-9_\/\-]+))(?=\s|$)/u,
+      openai: /^[ \t]*(\/[a-zA-Z0-9_]+)(?=\s|$)/,
+      qwen: /^[ \t]*(\/[a-zA-Z0-9_]+)(?=\s|$)/,
+      gemini: /^[ \t]*(@[a-zA-Z0-9_]+)(?=\s|$)/
+    };
+
+    const match = line.match(patterns[source]);
+    if (!match) {
+      return null;
+    }
+
+    const construct = match[1];
+    const operation = this.resolveConstruct(construct, source);
+    if (!operation) {
+      return null;
+    }
+
+    return { token: { operation, construct }, rest: line.slice(match[0].length).replace(/^[ \t]+/, '') };
+  }
+
+  private resolveConstruct(construct: string, source: GrammarVendor): string | undefined {
+    if (source === 'universal') {
+      const name = construct.startsWith('.p/')
+        ? construct.slice(3, -2).replace(/\//g, '.')
+        : construct.slice(1);
+      const canonical = resolveGlyph(name) || name;
+      const builtIn = Object.keys(UNIVERSAL_COMMANDS).find(operation => UNIVERSAL_COMMANDS[operation] === canonical);
+
+      return builtIn || (this.operations.has(canonical) ? canonical : undefined);
+    }
+
+    const name = construct.slice(1);
+    if (source === 'qwen') {
+      const switched = Object.keys(QWEN_SWITCHES).find(operation => QWEN_SWITCHES[operation] === name);
+      if (switched) {
+        return switched;
+      }
+    }
+
+    return this.syntax[source]?.get(name);
+  }
+
+  private parseTags(content: string): Segment[] {
+    const tags = [...this.syntax.anthropic.keys()];
+    const tagRegex = new RegExp(`<(${tags.join('|')})>([\\s\\S]*?)</\\1>`, 'g');
+    const segments: Segment[] = [];
+    let position = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagRegex.exec(content)) !== null) {
+      if (match.index > position) {
+        segments.push(content.slice(position, match.index));
+      }
+      segments.push({
+        operation: this.syntax.anthropic.get(match[1])!,
+        construct: `<${match[1]}>`,
+        children: this.parseTags(match[2])
+      });
+      position = match.index + match[0].length;
+    }
+
+    if (position < content.length) {
+      segments.push(content.slice(position));
+    }
+
+    return segments;
+  }
+
+  /**
+   * Render as Claude tags. Scoped operations keep their scope; operations
+   * that applied to the whole prompt wrap all of it.
+   */
+  private renderTags(parsed: ParsedContent, emulated: EmulatedConstruct[]): string {
+    const render = (segments: Segment[]): string => segments.map(segment => {
+      if (typeof segment === 'string') {
+        return segment;
+      }
+      const inner = render(segment.children);
+      const tag = this.renderOperation(segment, 'anthropic', emulated);
+      return tag ? `<${tag}>${inner}</${tag}>` : `${this.instructionFor(segment.operation)} ${inner}`;
+    }).join('');
+
+    let text = render(parsed.segments).trim();
+
+    [...parsed.directives].reverse().forEach(token => {
+      const tag = this.renderOperation(token, 'anthropic', emulated);
+      text = tag ? `<${tag}>\n${text}\n</${tag}>` : `${this.instructionFor(token.operation)}\n\n${text}`;
+    });
+
+    return text;
+  }
+
+  /**
+   * Render as commands or directives at the start of the prompt. Scoped
+   * operations apply to the whole prompt, since these grammars have no scope.
+   */
+  private renderDirectives(parsed: ParsedContent, target: GrammarVendor, emulated: EmulatedConstruct[]): string {
+    const scoped: GrammarToken[] = [];
+    const flatten = (segments: Segment[]): string => segments.map(segment => {
+      if (typeof segment === 'string') {
+        return segment;
+      }
+      scoped.push(segment);
+      return flatten(segment.children);
+    }).join('');
+
+    const text = flatten(parsed.segments).replace(/\n{3,}/g, '\n\n').trim();
+    const seen = new Set<string>();
+    const prefix: string[] = [];
+    const suffix: string[] = [];
+    const instructions: string[] = [];
+
+    [...parsed.directives, ...scoped].forEach(token => {
+      if (seen.has(token.operation)) {
+        return;
+      }
+      seen.add(token.operation);
+
+      const name = this.renderOperation(token, target, emulated);
+      if (!name) {
+        instructions.push(this.instructionFor(token.operation));
+      } else if (target === 'qwen' && QWEN_SWITCHES[token.operation]) {
+        suffix.push(`/${name}`);
+      } else {
+        prefix.push(`${target === 'gemini' ? '@' : '/'}${name}`);
+      }
+    });
+
+    const body = [...instructions, text].filter(Boolean).join('\n\n');
+    const head = prefix.join(' ');
+    const rendered = head ? `${head}${body.includes('\n') ? '\n' : ' '}${body}` : body;
+
+    return suffix.length > 0 ? `${rendered} ${suffix.join(' ')}` : rendered;
+  }
+
+  /**
+   * Name of an operation in the target grammar, recording an emulation when
+   * the target has no native support. Undefined means the target has no
+   * syntax for it and an instruction is used instead.
+   */
+  private renderOperation(token: GrammarToken, target: GrammarVendor, emulated: EmulatedConstruct[]): string | undefined {
+    const name = target === 'universal'
+      ? UNIVERSAL_COMMANDS[token.operation] || token.operation
+      : (target === 'qwen' && QWEN_SWITCHES[token.operation]) || this.operations.get(token.operation)?.[target];
+
+    if (!NATIVE_SUPPORT[target].includes(token.operation) &&
+        !emulated.some(entry => entry.operation === token.operation)) {
+      emulated.push({
+        operation: token.operation,
+        construct: token.construct,
+        reason: !name
+          ? `${target} has no equivalent; emulated with an instruction`
+          : target === 'universal'
+            ? `no built-in command; register a "${name}" command to handle /${name}`
+            : `${target} has no native support; emulated as ${this.formatConstruct(name, target)}`
+      });
+    }
+
+    return name;
+  }
+
+  private formatConstruct(name: string, target: GrammarVendor): string {
+    switch (target) {
+      case 'anthropic':
+        return `<${name}>`;
+      case 'gemini':
+        return `@${name}`;
+      default:
+        return `/${name}`;
+    }
+  }
+
+  private instructionFor(operation: string): string {
+    return EMULATION_INSTRUCTIONS[operation] || `Apply the ${operation} operation.`;
+  }
+}
+
+function collectScoped(segments: Segment[]): GrammarToken[] {
+  return segments.flatMap(segment => typeof segment === 'string'
+    ? []
+    : [segment, ...collectScoped(segment.children)]);
+}
@@ -1,18 +1,29 @@
 // universal-developer/src/index.ts
 
-import { ModelAdapter, TransformedPrompt, SymbolicCommand } from './adapters/base';
+import { ModelAdapter, TransformedPrompt, SymbolicCommand, StreamEvent, GenerateInput, GenerateResult, ExplainResult, ParsedCommand, Middleware, RouteInfo } from './adapters/base';
+import { ProviderError } from './adapters/errors';
 import { ClaudeAdapter } from './adapters/claude';
 import { OpenAIAdapter } from './adapters/openai';
 import { QwenAdapter } from './adapters/qwen';
+import { MockAdapter } from './adapters/mock';
+import { CommandDefinition, CommandDefinitionError, createCommandFromDefinition, loadCommandDefinitions } from './commands';
+import { TokenBudget } from './tokenizer';
+import { BudgetExceededError, ModelPricing, PricingError, SessionCost, calculateCost, estimateCallCost, getModelPricing } from './pricing';
+import { ResponseCache } from './cache';
+import { Cassette, CassetteOptions } from './cassette';
 
 // Import additional adapters as they become available
 // import { GeminiAdapter } from './adapters/gemini';
 // import { VLLMAdapter } from './adapters/vllm';
 // import { OllamaAdapter } from './adapters/ollama';
 
-type Provider = 'anthropic' | 'openai' | 'qwen' | 'gemini' | 'vllm' | 'ollama' | 'lmstudio';
+export type Provider = 'anthropic' | 'openai' | 'qwen' | 'gemini' | 'vllm' | 'ollama' | 'lmstudio' | 'mock';
 
-interface UniversalLLMOptions {
+/**
+ * One provider in router mode
+ */
+export interface ProviderConfig {
+  name?: string; // Used in routes and results; defaults to the provider, or provider:model when a model is set
   provider: Provider;
   apiKey: string;
   model?: string;
@@ -22,11 +33,38 @@ interface UniversalLLMOptions {
   [key: string]: any; // Additional provider-specific options
 }
 
-interface GenerateOptions {
-  prompt: string;
-  systemPrompt?: string;
+/**
+ * Send calls using a command to specific providers, e.g. /fast to a cheap model
+ */
+export interface RouteRule {
+  command: string; // Command name without the / prefix
+  providers: string[]; // Names of provider configs to try, in order
 }
 
+interface UniversalLLMOptions {
+  provider?: Provider; // Required unless providers is set
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  baseURL?: string;
+  providers?: ProviderConfig[]; // Router mode: tried in order, falling back on retryable errors
+  routes?: RouteRule[]; // Router mode: the first rule matching a command in the prompt picks the providers
+  maxSessionCostUSD?: number; // Reject calls that would take the session's spend over this amount
+  pricing?: ModelPricing; // Pricing to use instead of the built-in table
+  cache?: ResponseCache; // Store for responses to repeated identical requests, e.g. a MemoryCache or DiskCache
+  timeoutMs?: number; // Default time allowed for each call, including retries; override per call with timeoutMs
+  cassette?: Cassette | CassetteOptions; // Record requests and responses to a file, or replay them offline; see also UD_CASSETTE
+  [key: string]: any; // Additional provider-specific options, shared by every provider in router mode
+}
+
+interface RoutedAdapter {
+  name: string;
+  adapter: ModelAdapter;
+}
+
+type GenerateOptions = GenerateInput;
+
 interface SymbolicTelemetry {
   enabled: boolean;
   endpoint?: string;
@@ -39,16 +77,36 @@ interface SymbolicTelemetry {
  * using symbolic runtime commands.
  */
 export class UniversalLLM {
+  // The first provider; parses commands and holds the session modes shared by every provider
   private adapter: ModelAdapter;
+  private adapters: RoutedAdapter[];
+  private routes: RouteRule[];
+  private routerMode: boolean;
   private telemetry: SymbolicTelemetry;
   private sessionCommands: Map<string, number> = new Map();
+  private sessionCost: SessionCost = { totalUSD: 0, inputTokens: 0, outputTokens: 0, requests: 0, unpricedRequests: 0 };
+  private maxSessionCostUSD?: number;
+  private pricing?: ModelPricing;
+  private timeoutMs?: number;
   
   /**
    * Create a new UniversalLLM instance
    * @param options Configuration options including provider and API key
    */
   constructor(options: UniversalLLMOptions) {
-    this.adapter = this.createAdapter(options);
+    // One cassette is shared by every provider so their requests are recorded to the same file
+    const cassette = options.cassette && !(options.cassette instanceof Cassette) ? new Cassette(options.cassette) : options.cassette;
+    this.adapters = this.createAdapters({ ...options, cassette });
+    this.adapter = this.adapters[0].adapter;
+    this.routes = options.routes || [];
+    this.routerMode = options.providers !== undefined;
+    this.maxSessionCostUSD = options.maxSessionCostUSD;
+    this.pricing = options.pricing;
+    this.timeoutMs = options.timeoutMs;
+    
+    // Registered first so the budget is checked before any other middleware sees a request
+    const costTracker = this.createCostTracker();
+    this.adapters.forEach(({ adapter }) => adapter.use(costTracker));
     
     // Initialize telemetry (opt-in by default)
     this.telemetry = {
@@ -65,38 +123,180 @@ export class UniversalLLM {
    * @param command Command configuration
    */
   public registerCommand(name: string, command: Omit<SymbolicCommand, 'name'>) {
-    this.adapter.registerCommand({
+    this.adapters.forEach(({ adapter }) => adapter.registerCommand({
       name,
       ...command
-    });
+    }));
+    
+    return this; // For method chaining
+  }
+  
+  /**
+   * Add middleware that runs around every call. Hooks run in the order the
+   * middleware was added and may modify the call or answer it themselves.
+   * @param middleware Hooks for beforeParse, afterTransform, beforeRequest, afterResponse and onError
+   */
+  public use(middleware: Middleware) {
+    this.adapters.forEach(({ adapter }) => adapter.use(middleware));
     
     return this; // For method chaining
   }
   
+  /**
+   * Register a command from a declarative definition. Definitions add
+   * commands; naming a built-in command or alias is an error.
+   * @param definition Command definition with templates and per-provider overrides
+   */
+  public registerCommandDefinition(definition: CommandDefinition) {
+    const reserved = [definition.name, ...(definition.aliases || [])].find(name => this.adapter.isCoreCommand(name));
+    if (reserved) {
+      throw new CommandDefinitionError(
+        `command "${definition.name}"`,
+        `"${reserved}" is a built-in command and cannot be redefined; choose another name`
+      );
+    }
+    
+    this.adapters.forEach(({ adapter }) => adapter.registerCommand(createCommandFromDefinition(definition)));
+    
+    return this; // For method chaining
+  }
+  
+  /**
+   * Load and register every YAML or JSON command definition in a directory
+   * @param directory Directory containing command definition files
+   * @returns Names of the commands that were registered
+   */
+  public loadCommands(directory: string): string[] {
+    const definitions = loadCommandDefinitions(directory);
+    definitions.forEach(definition => this.registerCommandDefinition(definition));
+    
+    return definitions.map(definition => definition.name);
+  }
+  
   /**
    * Generate a response using the configured LLM provider
-   * @param options Generation options including prompt and optional system prompt
+   * @param options Generation options including prompt or message history and optional system prompt
    * @returns Promise resolving to the generated text
    */
   public async generate(options: GenerateOptions): Promise<string> {
-    // Extract symbolic command if present (for telemetry)
-    const commandMatch = options.prompt.match(/^\/([a-zA-Z0-9_]+)/);
-    const command = commandMatch ? commandMatch[1] : null;
+    const result = await this.generateDetailed(options);
     
-    // Track command usage
-    if (command) {
-      this.trackCommandUsage(command);
-    }
+    return result.text;
+  }
+  
+  /**
+   * Generate a response along with its metadata
+   * @param options Generation options including prompt or message history and optional system prompt
+   * @returns Promise resolving to the text, thinking, usage, finish reason, model and raw response
+   */
+  public async generateDetailed(options: GenerateOptions): Promise<GenerateResult> {
+    const usage = this.trackCommands(options);
+    
+    // Generate response using the adapter, falling back to the next provider in router mode
+    const { value: result, route } = await this.withFallback(options, (adapter, attempt) => adapter.generateDetailed(attempt));
     
-    // Generate response using the adapter
-    const response = await this.adapter.generate(options);
+    this.reportCommands(usage, result.provider);
     
-    // Send telemetry data if enabled
-    if (this.telemetry.enabled && command) {
-      this.sendTelemetry(command, options.prompt);
+    return this.withCost(this.withRoute(result, route));
+  }
+  
+  /**
+   * Generate independent alternative responses, one request (or sample) per alternative
+   * @param options Generation options; a /fork command in the prompt sets the default count
+   * @param count Number of alternatives to generate
+   * @returns Promise resolving to one result per alternative, each with its own usage
+   */
+  public async fork(options: GenerateOptions, count?: number): Promise<GenerateResult[]> {
+    const usage = this.trackCommands(options, 'fork');
+    
+    // Generate alternatives using the adapter
+    const { value: results, route } = await this.withFallback(options, (adapter, attempt) => adapter.fork(attempt, count));
+    
+    this.reportCommands(usage, results[0]?.provider);
+    
+    return results.map(result => this.withCost(this.withRoute(result, route)));
+  }
+  
+  /**
+   * Refine a response through separate draft, critique and revision calls
+   * @param options Generation options; a /loop command in the prompt sets the default iterations
+   * @param iterations Maximum number of critique/revise cycles
+   * @returns Promise resolving to the final revision with every intermediate step in `trace`
+   */
+  public async loop(options: GenerateOptions, iterations?: number): Promise<GenerateResult> {
+    const usage = this.trackCommands(options, 'loop');
+    
+    // Run the refinement cycles using the adapter
+    const { value: result, route } = await this.withFallback(options, (adapter, attempt) => adapter.loop(attempt, iterations));
+    
+    this.reportCommands(usage, result.provider);
+    
+    return this.withCost(this.withRoute(result, route));
+  }
+  
+  /**
+   * Stream a response using the configured LLM provider
+   * @param options Generation options including prompt or message history and optional system prompt
+   * @returns Async iterable of text deltas, thinking deltas and a final done event with usage
+   */
+  public async *generateStream(options: GenerateOptions): AsyncGenerator<StreamEvent> {
+    const usage = this.trackCommands(options);
+    const candidates = this.selectAdapters(options);
+    const modes = this.adapter.getModeStack();
+    const fallbacks: RouteInfo['fallbacks'] = [];
+    const deadline = this.callDeadline(options);
+    
+    // Stream response events from the adapter; in router mode a stream that fails before its first event falls back
+    for (const [index, { name, adapter }] of candidates.entries()) {
+      adapter.setModeStack(modes);
+      let started = false;
+      
+      try {
+        for await (const event of adapter.generateStream(this.withRemainingTime(options, deadline))) {
+          started = true;
+          yield event.type === 'done' && this.routerMode ? { ...event, route: { name, fallbacks } } : event;
+        }
+      } catch (error) {
+        if (started || index === candidates.length - 1 || !this.canFallBack(error, deadline)) {
+          throw error;
+        }
+        fallbacks.push({ name, error });
+        continue;
+      }
+      
+      this.shareModes(adapter);
+      this.reportCommands(usage, adapter.provider);
+      return;
     }
+  }
+  
+  /**
+   * Show what a call would send without making a network request
+   * @param options Generation options including prompt or message history and optional system prompt
+   * @returns Promise resolving to the resolved commands and parameters, the transformed prompt and the provider request
+   */
+  public async explain(options: GenerateOptions): Promise<ExplainResult> {
+    return this.selectAdapters(options)[0].adapter.explain(options);
+  }
+  
+  /**
+   * Estimate the tokens a call would use, without making a network request
+   * @param options Generation options including prompt or message history and optional system prompt
+   * @returns Promise resolving to the prompt tokens by source, the model's context window and the clamped max_tokens
+   */
+  public async countTokens(options: GenerateOptions): Promise<TokenBudget> {
+    const explanation = await this.explain(options);
     
-    return response;
+    return explanation.tokens;
+  }
+  
+  /**
+   * Get the session modes pinned with --sticky, e.g. `/think --sticky`.
+   * They apply to every call until a prompt uses /collapse.
+   * @returns Pinned commands with their parameters, in the order they were pinned
+   */
+  public getModeStack(): ParsedCommand[] {
+    return this.adapter.getModeStack();
   }
   
   /**
@@ -107,6 +307,15 @@ export class UniversalLLM {
     return new Map(this.sessionCommands);
   }
   
+  /**
+   * Get the spend of the current session, from the usage reported by every
+   * request including /loop critiques, /fork alternatives and streams
+   * @returns Total cost in USD with input and output token counts
+   */
+  public getCostStats(): SessionCost {
+    return { ...this.sessionCost };
+  }
+  
   /**
    * Enable or disable telemetry collection
    * @param enabled Whether telemetry should be enabled
@@ -115,12 +324,55 @@ export class UniversalLLM {
     this.telemetry.enabled = enabled;
   }
   
+  /**
+   * Create one adapter, or one per provider config in router mode
+   * @param options Configuration options
+   * @returns Named adapters in fallback order
+   */
+  private createAdapters(options: UniversalLLMOptions): RoutedAdapter[] {
+    const { providers, routes, provider, apiKey, model, baseURL, ...shared } = options;
+    
+    if (!providers) {
+      if (!provider) {
+        throw new Error('Either provider or providers must be set');
+      }
+      if (routes?.length) {
+        throw new Error('routes pick among named providers, so they need providers to be set');
+      }
+      return [{ name: provider, adapter: this.createAdapter(options as ProviderConfig) }];
+    }
+    
+    if (providers.length === 0) {
+      throw new Error('providers must list at least one provider config');
+    }
+    
+    const adapters = providers.map(({ name, ...config }) => ({
+      name: name || (config.model ? `${config.provider}:${config.model}` : config.provider),
+      adapter: this.createAdapter({ ...shared, ...config })
+    }));
+    
+    const names = adapters.map(({ name }) => name);
+    names.forEach((name, index) => {
+      if (names.indexOf(name) !== index) {
+        throw new Error(`Duplicate provider name "${name}"; set a unique name on each provider config`);
+      }
+    });
+    
+    (routes || []).forEach(route => route.providers.forEach(name => {
+      if (!names.includes(name)) {
+        throw new Error(`Route for /${route.command} refers to unknown provider "${name}" (expected ${names.join(', ')})`);
+      }
+    }));
+    
+    return adapters;
+  }
+  
   /**
    * Create the appropriate adapter based on the provider
    * @param options Configuration options
    * @returns Configured ModelAdapter instance
    */
-  private createAdapter(options: UniversalLLMOptions): ModelAdapter {
+  private createAdapter(options: ProviderConfig): ModelAdapter {
     const { provider, apiKey, ...adapterOptions } = options;
     
     switch (provider) {
@@ -130,6 +382,8 @@ export class UniversalLLM {
         return new OpenAIAdapter(apiKey, adapterOptions);
       case 'qwen':
         return new QwenAdapter(apiKey, adapterOptions);
+      case 'mock':
+        return new MockAdapter(apiKey, adapterOptions);
       // Add cases for other providers as they become available
       // case 'gemini':
       //   return new GeminiAdapter(apiKey, adapterOptions);
@@ -144,6 +398,205 @@ export class UniversalLLM {
     }
   }
   
+  /**
+   * Pick the providers to try for a call: those of the first route whose
+   * command is used, including pinned modes, or every provider in order
+   * @param options Generation options
+   * @returns Named adapters in the order they should be tried
+   */
+  private selectAdapters(options: GenerateOptions): RoutedAdapter[] {
+    if (this.routes.length === 0) {
+      return this.adapters;
+    }
+    
+    const { prompt } = this.adapter.normalizeInput(options);
+    const commands = this.adapter.parseCommandChain(prompt).commands.map(command => command.name);
+    if (!commands.includes('collapse')) {
+      commands.push(...this.adapter.getModeStack().map(mode => mode.name));
+    }
+    
+    const route = this.routes.find(rule => commands.includes(rule.command));
+    if (!route) {
+      return this.adapters;
+    }
+    
+    return route.providers.map(name => this.adapters.find(candidate => candidate.name === name)!);
+  }
+  
+  /**
+   * Run a call on each selected provider in turn until one succeeds. Only
+   * retryable errors fall back; others are raised immediately. Every attempt
+   * shares the call's timeout.
+   * @param options Generation options
+   * @param run Call to make on an adapter, with the options for that attempt
+   * @returns The call's result and the provider that answered
+   */
+  private async withFallback<T>(
+    options: GenerateOptions,
+    run: (adapter: ModelAdapter, attempt: GenerateOptions) => Promise<T>
+  ): Promise<{ value: T, route: RouteInfo }> {
+    const candidates = this.selectAdapters(options);
+    const modes = this.adapter.getModeStack();
+    const fallbacks: RouteInfo['fallbacks'] = [];
+    const deadline = this.callDeadline(options);
+    
+    for (const [index, { name, adapter }] of candidates.entries()) {
+      // Each attempt starts from the session modes as they were before the call
+      adapter.setModeStack(modes);
+      
+      try {
+        const value = await run(adapter, this.withRemainingTime(options, deadline));
+        this.shareModes(adapter);
+        return { value, route: { name, fallbacks } };
+      } catch (error) {
+        // Failed calls leave the modes as they were, so there is nothing to share
+        if (index === candidates.length - 1 || !this.canFallBack(error, deadline)) {
+          throw error;
+        }
+        fallbacks.push({ name, error });
+      }
+    }
+    
+    throw new Error('No provider available');
+  }
+  
+  /**
+   * Whether a failed attempt may move on to the next provider: the error
+   * must be retryable and the call's deadline, if any, not yet passed
+   */
+  private canFallBack(error: any, deadline?: number): boolean {
+    const retryable = error instanceof ProviderError && error.retryable;
+    
+    return retryable && (deadline === undefined || Date.now() < deadline);
+  }
+  
+  /**
+   * Time by which a call must finish, from its timeoutMs or the default
+   */
+  private callDeadline(options: GenerateOptions): number | undefined {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    
+    return timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+  }
+  
+  /**
+   * Options for one attempt of a call, allowed only the time left before its deadline
+   */
+  private withRemainingTime(options: GenerateOptions, deadline?: number): GenerateOptions {
+    return deadline !== undefined ? { ...options, timeoutMs: Math.max(0, deadline - Date.now()) } : options;
+  }
+  
+  /**
+   * Copy the session modes of the adapter that handled a call to every other adapter
+   * @param source Adapter that handled the call
+   */
+  private shareModes(source: ModelAdapter): void {
+    const modes = source.getModeStack();
+    this.adapters.forEach(({ adapter }) => {
+      if (adapter !== source) {
+        adapter.setModeStack(modes);
+      }
+    });
+  }
+  
+  /**
+   * Record the provider that answered, in router mode
+   * @param result Result returned by the adapter
+   * @param route Provider that answered and the providers that failed first
+   * @returns The result with `route` set in router mode
+   */
+  private withRoute(result: GenerateResult, route: RouteInfo): GenerateResult {
+    return this.routerMode ? { ...result, route } : result;
+  }
+  
+  /**
+   * Middleware that checks each request against maxSessionCostUSD and adds
+   * the cost of each response to the session totals
+   * @returns Middleware registered on the adapter
+   */
+  private createCostTracker(): Middleware {
+    return {
+      name: 'cost-tracker',
+      beforeRequest: (context) => {
+        if (this.maxSessionCostUSD === undefined || !context.tokens) return;
+        
+        const model = context.request!.body.model;
+        const pricing = getModelPricing(context.provider, model, this.pricing);
+        if (!pricing) {
+          throw new PricingError(context.provider, model);
+        }
+        
+        // The first request of a call is estimated for the whole call, since /fork and /loop send several
+        const commands = context.state.costEstimated ? [] : context.commands || [];
+        context.state.costEstimated = true;
+        
+        const estimate = estimateCallCost(context.tokens, commands, pricing);
+        if (this.sessionCost.totalUSD + estimate > this.maxSessionCostUSD) {
+          throw new BudgetExceededError(this.maxSessionCostUSD, this.sessionCost.totalUSD, estimate);
+        }
+      },
+      afterResponse: (context) => {
+        const { request, response } = context;
+        // Cached responses were paid for when they were stored
+        if (!request || !response?.usage || response.cached) return;
+        
+        this.sessionCost.requests++;
+        this.sessionCost.inputTokens += response.usage.inputTokens;
+        this.sessionCost.outputTokens += response.usage.outputTokens;
+        
+        const pricing = getModelPricing(context.provider, response.model || request.body.model, this.pricing);
+        if (pricing) {
+          this.sessionCost.totalUSD += calculateCost(response.usage, pricing);
+        } else {
+          this.sessionCost.unpricedRequests++;
+        }
+      }
+    };
+  }
+  
+  /**
+   * Add the cost of a result, and of each of its alternatives, from its usage
+   * @param result Result returned by the adapter
+   * @returns The result with `cost` set when the model's pricing is known
+   */
+  private withCost(result: GenerateResult): GenerateResult {
+    const pricing = getModelPricing(result.provider, result.model, this.pricing);
+    
+    return {
+      ...result,
+      ...(pricing && result.usage ? { cost: result.cached ? 0 : calculateCost(result.usage, pricing) } : {}),
+      ...(result.alternatives ? { alternatives: result.alternatives.map(alternative => this.withCost(alternative)) } : {})
+    };
+  }
+  
+  /**
+   * Extract the symbolic commands in a request and track their usage
+   * @param options Generation options
+   * @param implied Command applied by the API method itself, e.g. fork
+   * @returns The prompt and command names, for reporting once the call completes
+   */
+  private trackCommands(options: GenerateOptions, implied?: string): { prompt: string, commands: string[] } {
+    const { prompt } = this.adapter.normalizeInput(options);
+    const commands = this.adapter.parseCommandChain(prompt).commands.map(cmd => cmd.name);
+    if (implied && !commands.includes(implied)) {
+      commands.push(implied);
+    }
+    
+    commands.forEach(command => this.trackCommandUsage(command));
+    
+    return { prompt, commands };
+  }
+  
+  /**
+   * Send telemetry for commands used in a completed call, if enabled
+   * @param usage Prompt and command names returned by trackCommands
+   */
+  private reportCommands(usage: { prompt: string, commands: string[] }, provider: string = this.adapter.provider): void {
+    if (this.telemetry.enabled) {
+      usage.commands.forEach(command => this.sendTelemetry(command, usage.prompt, provider));
+    }
+  }
+  
   /**
    * Track usage of a symbolic command
    * @param command Name of the command (without the / prefix)
@@ -157,8 +610,9 @@ export class UniversalLLM {
    * Send telemetry data to the collection endpoint
    * @param command Name of the command used
    * @param prompt Full prompt text
+   * @param provider Provider that handled the call
    */
-  private async sendTelemetry(command: string, prompt: string): Promise<void> {
+  private async sendTelemetry(command: string, prompt: string, provider: string): Promise<void> {
     if (!this.telemetry.enabled || !this.telemetry.endpoint) return;
     
     try {
@@ -166,7 +620,7 @@ export class UniversalLLM {
         event: 'symbolic_command_used',
         properties: {
           command,
-          provider: (this.adapter as any).constructor.name.replace('Adapter', '').toLowerCase(),
+          provider,
           timestamp: new Date().toISOString(),
           prompt_length: prompt.length,
           // No personal data or prompt content is sent
@@ -218,3 +672,14 @@ export * from './adapters/base';
 export * from './adapters/claude';
 export * from './adapters/openai';
 export * from './adapters/qwen';
+export * from './adapters/mock';
+export * from './adapters/errors';
+export * from './adapters/retry';
+export * from './adapters/abort';
+export * from './commands';
+export * from './glyphs';
+export * from './grammar';
+export * from './tokenizer';
+export * from './pricing';
+export * from './cache';
+export * from './cassette';
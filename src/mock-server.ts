@@ -0,0 +1,302 @@
+// universal-developer/src/mock-server.ts
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FinishReason } from './adapters/base';
+import { MockError, MockReply, MockResponse, mockErrorBody, toMockResponse } from './adapters/mock';
+import { getTokenizer } from './tokenizer';
+
+type MockApi = 'anthropic' | 'openai';
+
+/**
+ * A request received by the mock server
+ */
+export interface MockServerRequest {
+  api: MockApi; // Which API the path belongs to
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface MockServerOptions {
+  responses?: Array<MockReply<MockServerRequest>>; // Replies in request order; without them the last user message is echoed
+  latencyMs?: number; // Delay before each reply
+  apiKey?: string; // Reject requests without this key with 401
+  port?: number; // Default 0, any free port
+}
+
+/**
+ * A running mock server. Point an adapter's `baseURL` at `url`.
+ */
+export interface MockServer {
+  url: string;
+  port: number;
+  requests: MockServerRequest[]; // Every request received, in order
+  close(): Promise<void>;
+}
+
+const ANTHROPIC_STOP_REASONS: Record<FinishReason, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_use: 'tool_use',
+  content_filter: 'refusal',
+  unknown: 'end_turn'
+};
+
+const OPENAI_FINISH_REASONS: Record<FinishReason, string> = {
+  stop: 'stop',
+  length: 'length',
+  tool_use: 'tool_calls',
+  content_filter: 'content_filter',
+  unknown: 'stop'
+};
+
+/**
+ * Start a local server imitating the Anthropic Messages API (`/v1/messages`)
+ * and OpenAI's Chat Completions API (`/v1/chat/completions`, also used by
+ * Qwen), including streaming and error responses, so the real adapters can
+ * be tested end to end without network access
+ * @param options Scripted replies, latency and the API key to require
+ * @returns The running server; close it when done
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const requests: MockServerRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => data += chunk);
+    req.on('end', async () => {
+      const path = (req.url || '').split('?')[0];
+      const api = routeApi(path);
+      try {
+        await handleRequest(req, res, path, api, data);
+      } catch (error) {
+        // Failures of scripted functions are reported like the route's provider reports an internal error
+        if (!res.headersSent) {
+          sendError(res, api ?? 'openai', { status: 500, message: error.message });
+        } else {
+          res.end();
+        }
+      }
+    });
+  });
+
+  const handleRequest = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    path: string,
+    api: MockApi | undefined,
+    data: string
+  ): Promise<void> => {
+    if (req.method !== 'POST' || !api) {
+      return sendError(res, 'openai', { status: 404, message: `No mock endpoint for ${req.method} ${path}` });
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(data);
+    } catch (error) {
+      return sendError(res, api, { status: 400, message: `Invalid JSON body: ${error.message}` });
+    }
+
+    const request: MockServerRequest = { api, path, headers: req.headers, body };
+    const index = requests.length;
+    requests.push(request);
+
+    if (options.apiKey !== undefined && requestKey(req) !== options.apiKey) {
+      return sendError(res, api, { status: 401, message: 'Invalid API key' });
+    }
+
+    const entry = options.responses?.[index];
+    if (options.responses && entry === undefined) {
+      return sendError(res, api, { status: 500, message: `Mock server received request ${index + 1} but only ${options.responses.length} responses are scripted` });
+    }
+
+    const reply = entry === undefined
+      ? { text: lastUserText(body.messages || []) }
+      : toMockResponse(typeof entry === 'function' ? await entry(request, index) : entry);
+
+    await new Promise(resolve => setTimeout(resolve, reply.delayMs ?? options.latencyMs ?? 0));
+
+    if (reply.error) {
+      const error: MockError = reply.error instanceof Error ? { status: 500, message: reply.error.message } : reply.error;
+      return sendError(res, api, error);
+    }
+
+    const completed = completeReply(reply, api, body);
+    res.setHeader(api === 'anthropic' ? 'request-id' : 'x-request-id', `req_mock_${index + 1}`);
+
+    if (api === 'anthropic') {
+      return body.stream ? streamAnthropic(res, completed, body) : sendJson(res, 200, anthropicMessage(completed, body, index));
+    }
+    return body.stream ? streamOpenAI(res, completed, body, index) : sendJson(res, 200, openAICompletion(completed, body, index));
+  };
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    port,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
+
+function routeApi(path: string): MockApi | undefined {
+  if (path.endsWith('/v1/messages')) {
+    return 'anthropic';
+  }
+
+  return path.endsWith('/chat/completions') ? 'openai' : undefined;
+}
+
+function requestKey(req: http.IncomingMessage): string | undefined {
+  const key = req.headers['x-api-key'];
+  if (typeof key === 'string') {
+    return key;
+  }
+
+  return req.headers.authorization?.replace(/^Bearer\s+/i, '');
+}
+
+// Fill in usage and the finish reason the way a provider would report them
+function completeReply(reply: MockResponse, api: MockApi, body: any): Required<Pick<MockResponse, 'text' | 'usage' | 'finishReason'>> & MockResponse {
+  const tokenizer = getTokenizer(api);
+  const text = reply.text ?? '';
+  const inputTokens = tokenizer.countTokens(JSON.stringify([body.system || '', body.messages || []]));
+  const outputTokens = tokenizer.countTokens(text);
+
+  return {
+    ...reply,
+    text,
+    usage: reply.usage ?? { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    finishReason: reply.finishReason ?? (reply.toolCalls?.length ? 'tool_use' : 'stop')
+  };
+}
+
+function anthropicMessage(reply: ReturnType<typeof completeReply>, body: any, index: number): any {
+  return {
+    id: `msg_mock_${index + 1}`,
+    type: 'message',
+    role: 'assistant',
+    model: body.model,
+    content: [
+      ...(reply.thinking ? [{ type: 'thinking', thinking: reply.thinking, signature: 'mock' }] : []),
+      ...(reply.text ? [{ type: 'text', text: reply.text }] : []),
+      ...(reply.toolCalls || []).map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+    ],
+    stop_reason: ANTHROPIC_STOP_REASONS[reply.finishReason],
+    usage: { input_tokens: reply.usage.inputTokens, output_tokens: reply.usage.outputTokens }
+  };
+}
+
+function openAICompletion(reply: ReturnType<typeof completeReply>, body: any, index: number): any {
+  const message = {
+    role: 'assistant',
+    content: reply.text || null,
+    ...(reply.toolCalls?.length ? {
+      tool_calls: reply.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    } : {})
+  };
+
+  return {
+    id: `chatcmpl-mock-${index + 1}`,
+    object: 'chat.completion',
+    model: body.model,
+    // Requests with `n` get that many identical choices
+    choices: Array.from({ length: body.n || 1 }, (_, choice) => ({
+      index: choice,
+      message,
+      finish_reason: OPENAI_FINISH_REASONS[reply.finishReason]
+    })),
+    usage: {
+      prompt_tokens: reply.usage.inputTokens,
+      completion_tokens: reply.usage.outputTokens,
+      total_tokens: reply.usage.totalTokens
+    }
+  };
+}
+
+function streamAnthropic(res: http.ServerResponse, reply: ReturnType<typeof completeReply>, body: any): void {
+  startStream(res);
+  const send = (type: string, payload: any) => res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...payload })}\n\n`);
+
+  send('message_start', { message: { model: body.model, usage: { input_tokens: reply.usage.inputTokens, output_tokens: 0 } } });
+  if (reply.thinking) {
+    send('content_block_delta', { index: 0, delta: { type: 'thinking_delta', thinking: reply.thinking } });
+  }
+  for (const chunk of chunks(reply.text)) {
+    send('content_block_delta', { index: 1, delta: { type: 'text_delta', text: chunk } });
+  }
+  send('message_delta', { delta: { stop_reason: ANTHROPIC_STOP_REASONS[reply.finishReason] }, usage: { output_tokens: reply.usage.outputTokens } });
+  send('message_stop', {});
+  res.end();
+}
+
+function streamOpenAI(res: http.ServerResponse, reply: ReturnType<typeof completeReply>, body: any, index: number): void {
+  startStream(res);
+  const id = `chatcmpl-mock-${index + 1}`;
+  const send = (payload: any) => res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', model: body.model, ...payload })}\n\n`);
+
+  for (const chunk of chunks(reply.text)) {
+    send({ choices: [{ index: 0, delta: { content: chunk }, finish_reason: null }] });
+  }
+  send({ choices: [{ index: 0, delta: {}, finish_reason: OPENAI_FINISH_REASONS[reply.finishReason] }] });
+  if (body.stream_options?.include_usage) {
+    send({
+      choices: [],
+      usage: { prompt_tokens: reply.usage.inputTokens, completion_tokens: reply.usage.outputTokens, total_tokens: reply.usage.totalTokens }
+    });
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+function sendError(res: http.ServerResponse, api: MockApi, error: MockError): void {
+  const { type, message } = mockErrorBody(error);
+
+  if (error.retryAfterMs !== undefined) {
+    res.setHeader('retry-after-ms', String(error.retryAfterMs));
+  }
+
+  sendJson(res, error.status, api === 'anthropic'
+    ? { type: 'error', error: { type, message } }
+    : { error: { message, type, code: null } });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: any): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function startStream(res: http.ServerResponse): void {
+  res.statusCode = 200;
+  res.setHeader('content-type', 'text/event-stream');
+  res.setHeader('cache-control', 'no-cache');
+}
+
+// Word by word, so clients see more than one delta
+function chunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function lastUserText(messages: any[]): string {
+  const content = [...messages].reverse().find(message => message.role === 'user')?.content;
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return (content || [])
+    .filter((part: any) => part.type === 'text')
+    .map((part: any) => part.text)
+    .join('\n');
+}
@@ -0,0 +1,158 @@
+// universal-developer/src/pricing.ts
+
+import { ParsedCommand, TokenUsage } from './adapters/base';
+import { TokenBudget } from './tokenizer';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Spend of a session, from the usage reported by each request
+ */
+export interface SessionCost {
+  totalUSD: number;
+  inputTokens: number;
+  outputTokens: number;
+  requests: number;
+  unpricedRequests: number; // Requests to models without known pricing, not included in totalUSD
+}
+
+/**
+ * Raised before a request that would take the session over maxSessionCostUSD
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budgetUSD: number,
+    public readonly spentUSD: number,
+    public readonly estimatedUSD: number
+  ) {
+    super(
+      `Call would exceed the session budget of ${formatUSD(budgetUSD)}: ` +
+      `${formatUSD(spentUSD)} spent so far and up to ${formatUSD(estimatedUSD)} estimated for this call`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Raised before a request to a model without known pricing when
+ * maxSessionCostUSD is set, since the budget cannot be enforced for it
+ */
+export class PricingError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly model: string
+  ) {
+    super(`No pricing is known for ${provider} model ${model}, so maxSessionCostUSD cannot be enforced; set the pricing option`);
+    this.name = 'PricingError';
+  }
+}
+
+/**
+ * List prices per provider by model prefix; the first match wins, so more
+ * specific prefixes come first. Override them with the `pricing` option.
+ */
+export const MODEL_PRICING: Record<string, Array<[string, ModelPricing]>> = {
+  anthropic: [
+    ['claude-opus-4-5', { inputPerMillion: 5, outputPerMillion: 25 }],
+    ['claude-opus-4', { inputPerMillion: 15, outputPerMillion: 75 }],
+    ['claude-sonnet-4', { inputPerMillion: 3, outputPerMillion: 15 }],
+    ['claude-haiku-4', { inputPerMillion: 1, outputPerMillion: 5 }],
+    ['claude-3-7-sonnet', { inputPerMillion: 3, outputPerMillion: 15 }],
+    ['claude-3-5-sonnet', { inputPerMillion: 3, outputPerMillion: 15 }],
+    ['claude-3-5-haiku', { inputPerMillion: 0.8, outputPerMillion: 4 }],
+    ['claude-3-opus', { inputPerMillion: 15, outputPerMillion: 75 }],
+    ['claude-3-sonnet', { inputPerMillion: 3, outputPerMillion: 15 }],
+    ['claude-3-haiku', { inputPerMillion: 0.25, outputPerMillion: 1.25 }]
+  ],
+  openai: [
+    ['gpt-5-nano', { inputPerMillion: 0.05, outputPerMillion: 0.4 }],
+    ['gpt-5-mini', { inputPerMillion: 0.25, outputPerMillion: 2 }],
+    ['gpt-5', { inputPerMillion: 1.25, outputPerMillion: 10 }],
+    ['gpt-4.1-nano', { inputPerMillion: 0.1, outputPerMillion: 0.4 }],
+    ['gpt-4.1-mini', { inputPerMillion: 0.4, outputPerMillion: 1.6 }],
+    ['gpt-4.1', { inputPerMillion: 2, outputPerMillion: 8 }],
+    ['gpt-4o-mini', { inputPerMillion: 0.15, outputPerMillion: 0.6 }],
+    ['gpt-4o', { inputPerMillion: 2.5, outputPerMillion: 10 }],
+    ['gpt-4-turbo', { inputPerMillion: 10, outputPerMillion: 30 }],
+    ['gpt-4-32k', { inputPerMillion: 60, outputPerMillion: 120 }],
+    ['gpt-4', { inputPerMillion: 30, outputPerMillion: 60 }],
+    ['gpt-3.5-turbo', { inputPerMillion: 0.5, outputPerMillion: 1.5 }],
+    ['o1-mini', { inputPerMillion: 1.1, outputPerMillion: 4.4 }],
+    ['o1', { inputPerMillion: 15, outputPerMillion: 60 }],
+    ['o3-mini', { inputPerMillion: 1.1, outputPerMillion: 4.4 }],
+    ['o3', { inputPerMillion: 2, outputPerMillion: 8 }],
+    ['o4-mini', { inputPerMillion: 1.1, outputPerMillion: 4.4 }]
+  ],
+  qwen: [
+    ['qwen-max', { inputPerMillion: 1.6, outputPerMillion: 6.4 }],
+    ['qwen-plus', { inputPerMillion: 0.4, outputPerMillion: 1.2 }],
+    ['qwen-turbo', { inputPerMillion: 0.05, outputPerMillion: 0.2 }],
+    ['qwen-vl-max', { inputPerMillion: 0.8, outputPerMillion: 3.2 }],
+    ['qwen-vl-plus', { inputPerMillion: 0.21, outputPerMillion: 0.63 }],
+    ['qwen3-235b-a22b', { inputPerMillion: 0.7, outputPerMillion: 2.8 }],
+    ['qwen3-30b-a3b', { inputPerMillion: 0.2, outputPerMillion: 0.8 }]
+  ]
+};
+
+/**
+ * Look up the price of a model
+ * @param provider Provider identifier, e.g. `anthropic`
+ * @param model Model name as reported by the provider; dated versions match their base name
+ * @param override Pricing that takes precedence over the built-in table
+ * @returns The pricing, or undefined if the model is unknown
+ */
+export function getModelPricing(provider: string, model: string, override?: ModelPricing): ModelPricing | undefined {
+  if (override) {
+    return override;
+  }
+
+  return (MODEL_PRICING[provider] || []).find(([prefix]) => model?.startsWith(prefix))?.[1];
+}
+
+/**
+ * Cost in USD of the tokens a call used
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Upper estimate of a call's cost before it is sent, assuming the response
+ * uses all of max_tokens. Executed /fork sends one request per alternative;
+ * executed /loop sends a critique and a revision per iteration, each
+ * carrying the earlier responses.
+ */
+export function estimateCallCost(tokens: TokenBudget, commands: ParsedCommand[], pricing: ModelPricing): number {
+  const input = tokens.prompt.total;
+  const output = tokens.maxTokens ?? 0;
+
+  const fork = commands.find(command => command.name === 'fork' && command.parameters.mode === 'execute');
+  const loop = commands.find(command => command.name === 'loop' && command.parameters.mode === 'execute');
+
+  let usage: TokenUsage = { inputTokens: input, outputTokens: output, totalTokens: input + output };
+  if (fork) {
+    const count = fork.parameters.count;
+    usage = { inputTokens: input * count, outputTokens: output * count, totalTokens: (input + output) * count };
+  } else if (loop) {
+    const requests = 1 + 2 * loop.parameters.iterations;
+    // Critiques carry the draft, revisions the draft and the critique
+    const carried = 3 * output * loop.parameters.iterations;
+    usage = {
+      inputTokens: input * requests + carried,
+      outputTokens: output * requests,
+      totalTokens: (input + output) * requests + carried
+    };
+  }
+
+  return calculateCost(usage, pricing);
+}
+
+export function formatUSD(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
@@ -0,0 +1,4 @@
+// universal-developer/src/testing.ts
+
+// Test helpers, kept out of the main entry point so importing the library doesn't load an HTTP server
+export * from './mock-server';
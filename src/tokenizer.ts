@@ -0,0 +1,158 @@
+// universal-developer/src/tokenizer.ts
+
+import { ChatMessage, ContentPart, MessageContent, TransformedPrompt } from './adapters/base';
+import { loadMedia } from './adapters/content';
+
+/**
+ * Counts tokens for a provider. The built-in tokenizers are local estimates;
+ * pass an exact tokenizer with the `tokenizer` option when precision matters.
+ */
+export interface Tokenizer {
+  countTokens(text: string): number;
+  imageTokens?: number; // Estimated cost of one image
+  documentPageTokens?: number; // Estimated cost of one PDF page
+  messageOverhead?: number; // Tokens added per message for the role and formatting
+}
+
+/**
+ * Estimated prompt size, split by where the tokens come from
+ */
+export interface PromptTokenCount {
+  systemPrompt: number; // Including instructions added by commands
+  history: number; // Earlier turns and tool calls with their results
+  userPrompt: number;
+  attachments: number;
+  tools: number;
+  total: number;
+}
+
+/**
+ * Token budget of a request after the pre-flight context window check
+ */
+export interface TokenBudget {
+  prompt: PromptTokenCount;
+  contextWindow?: number; // Undefined when the model's window is unknown
+  maxTokens?: number; // max_tokens sent with the request, after clamping
+}
+
+// Hiragana, katakana, CJK ideographs and Hangul take roughly one token per character or more
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]/g;
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+const SYMBOL_PATTERN = /[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Estimates tokens from word lengths: each word costs its length divided by
+ * the average characters per token, each symbol one token, and CJK
+ * characters a fixed amount each. Typically within 10-20% for prose.
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  constructor(
+    private readonly charsPerToken: number,
+    private readonly cjkTokensPerChar: number,
+    public readonly imageTokens?: number,
+    public readonly documentPageTokens?: number,
+    public readonly messageOverhead?: number
+  ) {}
+
+  public countTokens(text: string): number {
+    if (!text) {
+      return 0;
+    }
+
+    const cjk = text.match(CJK_PATTERN)?.length || 0;
+    const rest = text.replace(CJK_PATTERN, ' ');
+
+    const words: string[] = rest.match(WORD_PATTERN) || [];
+    const wordTokens = words.reduce((total, word) => total + Math.max(1, Math.round(word.length / this.charsPerToken)), 0);
+    const symbols = rest.match(SYMBOL_PATTERN)?.length || 0;
+
+    return Math.ceil(wordTokens + symbols + cjk * this.cjkTokensPerChar);
+  }
+}
+
+/**
+ * Built-in estimators per provider family. Claude's tokenizer splits English
+ * into shorter pieces than GPT's; Qwen's vocabulary covers Chinese densely.
+ */
+export const TOKENIZERS: Record<string, Tokenizer> = {
+  openai: new EstimatingTokenizer(4, 1, 765, 1500, 4),
+  anthropic: new EstimatingTokenizer(3.5, 1.2, 1600, 2500, 4),
+  qwen: new EstimatingTokenizer(4, 0.7, 1280, 1500, 4)
+};
+
+/**
+ * Tokenizer for a provider, falling back to the OpenAI estimate for providers without their own
+ */
+export function getTokenizer(provider: string): Tokenizer {
+  return TOKENIZERS[provider] || TOKENIZERS.openai;
+}
+
+/**
+ * Estimate the prompt tokens of a transformed prompt
+ */
+export function countPromptTokens(transformed: TransformedPrompt, tokenizer: Tokenizer): PromptTokenCount {
+  const overhead = tokenizer.messageOverhead ?? 0;
+
+  const systemPrompt = transformed.systemPrompt ? tokenizer.countTokens(transformed.systemPrompt) + overhead : 0;
+  const history = countMessageTokens([...(transformed.history || []), ...(transformed.toolTurns || [])], tokenizer);
+  const userPrompt = tokenizer.countTokens(transformed.userPrompt) + overhead;
+  const attachments = (transformed.attachments || [])
+    .reduce((total, part) => total + countPartTokens(part, tokenizer), 0);
+  const tools = transformed.tools?.length
+    ? tokenizer.countTokens(JSON.stringify(transformed.tools.map(({ name, description, parameters }) => ({ name, description, parameters }))))
+    : 0;
+
+  return {
+    systemPrompt,
+    history,
+    userPrompt,
+    attachments,
+    tools,
+    total: systemPrompt + history + userPrompt + attachments + tools
+  };
+}
+
+/**
+ * Estimate the tokens of conversation turns, including tool calls
+ */
+export function countMessageTokens(messages: ChatMessage[], tokenizer: Tokenizer): number {
+  return messages.reduce((total, message) =>
+    total
+      + countContentTokens(message.content, tokenizer)
+      + (message.toolCalls ? tokenizer.countTokens(JSON.stringify(message.toolCalls)) : 0)
+      + (tokenizer.messageOverhead ?? 0),
+    0
+  );
+}
+
+export function countContentTokens(content: MessageContent, tokenizer: Tokenizer): number {
+  if (typeof content === 'string') {
+    return tokenizer.countTokens(content);
+  }
+
+  return content.reduce((total, part) => total + countPartTokens(part, tokenizer), 0);
+}
+
+function countPartTokens(part: ContentPart, tokenizer: Tokenizer): number {
+  if (part.type === 'text') {
+    return tokenizer.countTokens(part.text);
+  }
+
+  if (part.type === 'image') {
+    return tokenizer.imageTokens ?? 0;
+  }
+
+  // Text documents are counted by their content and PDFs by their page count
+  const media = loadMedia(part.source);
+  if (!media.data) {
+    return tokenizer.documentPageTokens ?? 0;
+  }
+
+  const bytes = Buffer.from(media.data, 'base64');
+  if (media.mediaType === 'text/plain') {
+    return tokenizer.countTokens(bytes.toString('utf-8'));
+  }
+
+  const pages = bytes.toString('latin1').match(/\/Type\s*\/Page\b/g)?.length || 1;
+  return pages * (tokenizer.documentPageTokens ?? 0);
+}
@@ -0,0 +1,71 @@
+// universal-developer/test/abort.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AbortError, TimeoutError, UniversalLLM } from '../src/index';
+
+describe('cancellation and timeouts', () => {
+  it('cancels a call in flight', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [{ text: 'slow', delayMs: 1000 }] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const started = Date.now();
+
+    await assert.rejects(llm.generate({ prompt: 'Hello', signal: controller.signal }), AbortError);
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it('sends nothing once the signal has aborted', async () => {
+    // No scripted responses, so a request would fail differently
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [] });
+
+    await assert.rejects(llm.generate({ prompt: 'Hello', signal: AbortSignal.abort() }), AbortError);
+  });
+
+  it('stops a multi-request call before its next request', async () => {
+    const controller = new AbortController();
+    let requests = 0;
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: [() => {
+        requests++;
+        controller.abort();
+        return 'draft';
+      }]
+    });
+
+    await assert.rejects(llm.loop({ prompt: 'Write a haiku', signal: controller.signal }, 3), AbortError);
+    assert.equal(requests, 1);
+  });
+
+  it('times out the whole call, including retries', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      retry: { initialDelayMs: 1000 },
+      timeoutMs: 100,
+      responses: [{ error: { status: 503 } }, 'too late']
+    });
+    const started = Date.now();
+
+    await assert.rejects(llm.generate({ prompt: 'Hello' }), TimeoutError);
+    assert.ok(Date.now() - started < 500);
+  });
+
+  it('shares one timeout across every provider', async () => {
+    const llm = new UniversalLLM({
+      telemetryEnabled: false,
+      retry: false,
+      timeoutMs: 100,
+      providers: [
+        { name: 'primary', provider: 'mock', apiKey: '', responses: [{ text: 'slow', delayMs: 300 }] },
+        { name: 'backup', provider: 'mock', apiKey: '', responses: [{ text: 'slow', delayMs: 300 }] }
+      ]
+    });
+    const started = Date.now();
+
+    await assert.rejects(llm.generate({ prompt: 'Hello' }), TimeoutError);
+    assert.ok(Date.now() - started < 200);
+  });
+});
@@ -0,0 +1,87 @@
+// universal-developer/test/cache.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskCache, MemoryCache, ProviderResponse, UniversalLLM } from '../src/index';
+
+const pricing = { inputPerMillion: 1_000_000, outputPerMillion: 1_000_000 };
+
+function response(text: string): ProviderResponse {
+  return { text, model: 'mock-model', raw: null };
+}
+
+describe('response cache', () => {
+  it('answers repeated requests from the cache without counting their cost', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, pricing, cache: new MemoryCache(), responses: ['first', 'sent'] });
+
+    const first = await llm.generateDetailed({ prompt: '/think Explain the failing test' });
+    const repeated = await llm.generateDetailed({ prompt: '/think Explain the failing test' });
+
+    assert.equal(repeated.text, 'first');
+    assert.equal(first.cached, undefined);
+    assert.equal(repeated.cached, true);
+    assert.equal(llm.getCostStats().requests, 1);
+    assert.equal(await llm.generate({ prompt: '/think Explain the failing test', cache: false }), 'sent');
+  });
+
+  it('runs beforeRequest hooks for cached responses too', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, cache: new MemoryCache(), responses: ['only'] });
+    const audited: boolean[] = [];
+    llm.use({ beforeRequest: () => { audited.push(true); } });
+
+    await llm.generate({ prompt: 'Hello' });
+    await llm.generate({ prompt: 'Hello' });
+
+    assert.equal(audited.length, 2);
+  });
+
+  it('keys requests on the model parameters hooks set', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, cache: new MemoryCache(), responses: ['cool', 'warm'] });
+    let temperature = 0.1;
+    llm.use({ beforeRequest: context => { context.request!.body.temperature = temperature; } });
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'cool');
+    temperature = 0.9;
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'warm');
+  });
+
+  it('leaves commands whose responses should vary out unless asked', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, cache: new MemoryCache(), responses: ['a', 'b', 'c'] });
+
+    assert.equal(await llm.generate({ prompt: '/fork Name a color' }), 'a');
+    assert.equal(await llm.generate({ prompt: '/fork Name a color' }), 'b');
+    assert.equal(await llm.generate({ prompt: '/fork Name a color', cache: true }), 'c');
+    assert.equal(await llm.generate({ prompt: '/fork Name a color', cache: true }), 'c');
+  });
+
+  it('evicts the least recently used entries and expires old ones', async () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    await cache.set('a', response('a'));
+    await cache.set('b', response('b'));
+    await cache.get('a');
+    await cache.set('c', response('c'));
+
+    assert.equal((await cache.get('a'))?.text, 'a');
+    assert.equal(await cache.get('b'), undefined);
+
+    const expiring = new MemoryCache({ ttlMs: -1 });
+    await expiring.set('a', response('a'));
+    assert.equal(await expiring.get('a'), undefined);
+  });
+
+  it('shares responses between processes through the disk', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ud-cache-'));
+    try {
+      await new DiskCache({ directory }).set('key', response('stored'));
+      assert.equal((await new DiskCache({ directory }).get('key'))?.text, 'stored');
+
+      await new DiskCache({ directory }).clear();
+      assert.equal(await new DiskCache({ directory }).get('key'), undefined);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
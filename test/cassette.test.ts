@@ -0,0 +1,118 @@
+// universal-developer/test/cassette.test.ts
+
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette, CassetteMismatchError, ProviderRequest, ProviderResponse, UniversalLLM } from '../src/index';
+import { startMockServer } from '../src/testing';
+
+describe('cassettes', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ud-cassette-'));
+    file = path.join(directory, 'cassette.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records responses and replays them without the provider', async () => {
+    const server = await startMockServer({ responses: ['recorded answer', 'streamed answer'] });
+    try {
+      const recorder = new UniversalLLM({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        baseURL: server.url,
+        telemetryEnabled: false,
+        cassette: { path: file, mode: 'record' }
+      });
+      await recorder.generate({ prompt: 'Question' });
+      for await (const event of recorder.generateStream({ prompt: 'Stream it' })) {
+        // Recorded once the stream completes
+      }
+    } finally {
+      await server.close();
+    }
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    assert.equal(saved.interactions.length, 2);
+    assert.ok(!JSON.stringify(saved).includes('test-key'));
+
+    // Nothing listens at the server's address any more, so every answer comes from the cassette
+    const replayer = new UniversalLLM({
+      provider: 'anthropic',
+      apiKey: '',
+      baseURL: server.url,
+      telemetryEnabled: false,
+      cassette: { path: file, mode: 'replay' }
+    });
+    assert.equal(await replayer.generate({ prompt: 'Question' }), 'recorded answer');
+
+    let text = '';
+    for await (const event of replayer.generateStream({ prompt: 'Stream it' })) {
+      text += event.type === 'text_delta' ? event.text : '';
+    }
+    assert.equal(text, 'streamed answer');
+
+    await assert.rejects(replayer.generate({ prompt: 'Another question' }), CassetteMismatchError);
+  });
+
+  it('matches loosely across changing timestamps', async () => {
+    const recorder = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: ['on time'],
+      cassette: { path: file, mode: 'record' }
+    });
+    await recorder.generate({ prompt: 'Report at 2024-01-02T10:00:00Z' });
+
+    const replayer = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: [],
+      cassette: { path: file, match: 'loose' }
+    });
+    assert.equal(await replayer.generate({ prompt: 'Report at 2025-06-07T18:30:00Z' }), 'on time');
+  });
+
+  it('replays by default in CI instead of recording a missing cassette', () => {
+    const ci = process.env.CI;
+    try {
+      process.env.CI = 'true';
+      assert.throws(() => new Cassette({ path: file }), /does not exist/);
+
+      process.env.CI = '';
+      assert.equal(new Cassette({ path: file }).mode, 'record');
+    } finally {
+      if (ci === undefined) {
+        delete process.env.CI;
+      } else {
+        process.env.CI = ci;
+      }
+    }
+  });
+
+  it('keeps saving after a failed write without failing the request', async t => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    // A file where the cassette's directory should be makes the first save fail
+    const blocked = path.join(directory, 'blocked');
+    fs.writeFileSync(blocked, '');
+    const cassette = new Cassette({ path: path.join(blocked, 'cassette.json'), mode: 'record' });
+    const request: ProviderRequest = { method: 'POST', url: 'mock://mock-model', headers: {}, body: { model: 'mock-model' } };
+    const response: ProviderResponse = { text: 'ok', usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 }, finishReason: 'stop', model: 'mock-model', raw: null };
+
+    assert.equal((await cassette.send(request, async () => response)).text, 'ok');
+    assert.equal(warn.mock.callCount(), 1);
+    await assert.rejects(cassette.flush(), /Cannot save cassette/);
+
+    fs.rmSync(blocked);
+    await cassette.send(request, async () => response);
+    await cassette.flush();
+    assert.equal(JSON.parse(fs.readFileSync(path.join(blocked, 'cassette.json'), 'utf-8')).interactions.length, 2);
+  });
+});
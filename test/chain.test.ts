@@ -0,0 +1,51 @@
+// universal-developer/test/chain.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { UniversalLLM } from '../src/index';
+
+function createLLM(options: Record<string, any> = {}): UniversalLLM {
+  return new UniversalLLM({ provider: 'mock', telemetryEnabled: false, ...options });
+}
+
+describe('command chaining', () => {
+  it('parses every leading command with its flags', async () => {
+    const { commands } = await createLLM().explain({ prompt: '/think /reflect --depth=2 Explain X' });
+
+    assert.deepEqual(commands.map(command => command.name), ['think', 'reflect']);
+    assert.equal(commands[1].parameters.depth, 2);
+  });
+
+  it('stops at the first token that is not a command', async () => {
+    const { commands, transformed } = await createLLM().explain({ prompt: '/think Explain /fast mode' });
+
+    assert.deepEqual(commands.map(command => command.name), ['think']);
+    assert.equal(transformed.userPrompt, 'Explain /fast mode');
+  });
+
+  it('composes the transformations in order', async () => {
+    const { transformed } = await createLLM({ temperature: 0.5 }).explain({ prompt: '/think /fast Explain X', systemPrompt: 'Be kind.' });
+
+    assert.match(transformed.systemPrompt!, /^Be kind\.\nThink step by step before answering\.\nAnswer briefly\.$/);
+    assert.equal(transformed.userPrompt, 'Explain X');
+    // Model parameters merge, with later commands winning
+    assert.equal(transformed.modelParameters!.temperature, 0.6);
+    assert.equal(transformed.modelParameters!.enable_thinking, true);
+  });
+
+  it('sends the composed prompt in a single request', async () => {
+    const llm = createLLM();
+    const sent = JSON.parse(await llm.generate({ prompt: '/think /fast Explain X' }));
+
+    assert.match(sent.systemPrompt, /Think step by step[\s\S]*Answer briefly/);
+    assert.equal(sent.userPrompt, 'Explain X');
+  });
+
+  it('leaves prompts without commands unchanged', async () => {
+    const { commands, transformed } = await createLLM().explain({ prompt: 'Just a question', systemPrompt: 'System' });
+
+    assert.deepEqual(commands, []);
+    assert.equal(transformed.systemPrompt, 'System');
+    assert.equal(transformed.userPrompt, 'Just a question');
+  });
+});
@@ -0,0 +1,81 @@
+// universal-developer/test/definitions.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandDefinition, CommandDefinitionError, UniversalLLM, parseCommandDefinitions } from '../src/index';
+
+const yaml = `
+name: debate
+description: Present several perspectives on a topic
+aliases: [argue]
+parameters:
+  - name: sides
+    type: range
+    min: 2
+    max: 5
+    default: 2
+systemPrompt: Present {sides} perspectives.
+modelParameters:
+  temperature: 0.8
+providers:
+  qwen:
+    userPrompt: "{prompt} /think"
+`;
+
+describe('command definitions', () => {
+  it('parses YAML and JSON definitions', () => {
+    const [fromYaml] = parseCommandDefinitions(yaml, 'debate.yaml');
+    const fromJson = parseCommandDefinitions(JSON.stringify([fromYaml, { ...fromYaml, name: 'argue_more', aliases: [] }]), 'debate.json');
+
+    assert.equal(fromYaml.name, 'debate');
+    assert.equal(fromYaml.parameters![0].description, '');
+    assert.deepEqual(fromJson.map(definition => definition.name), ['debate', 'argue_more']);
+  });
+
+  it('fills templates and applies provider overrides', async () => {
+    const [definition] = parseCommandDefinitions(yaml, 'debate.yaml');
+    const mock = new UniversalLLM({ provider: 'mock', telemetryEnabled: false }).registerCommandDefinition(definition);
+    const { transformed } = await mock.explain({ prompt: '/argue --sides=3 Remote work' });
+
+    assert.match(transformed.systemPrompt!, /Present 3 perspectives\./);
+    assert.equal(transformed.userPrompt, 'Remote work');
+    assert.equal(transformed.modelParameters!.temperature, 0.8);
+
+    const qwen = new UniversalLLM({ provider: 'qwen', apiKey: 'test-key', telemetryEnabled: false }).registerCommandDefinition(definition);
+    assert.equal((await qwen.explain({ prompt: '/debate Remote work' })).transformed.userPrompt, 'Remote work /think');
+  });
+
+  it('rejects fields of the wrong type', () => {
+    const cases = [
+      { parameters: { name: 'sides' } },
+      { parameters: [{ name: 'sides', type: 'integer' }] },
+      { aliases: 'argue' },
+      { systemPrompt: ['Present both sides.'] },
+      { userPrompt: 42 },
+      { modelParameters: 'hot' },
+      { providers: [] },
+      { providers: { qwen: 'think' } },
+      { providers: { qwen: { modelParameters: [0.8] } } }
+    ];
+
+    for (const fields of cases) {
+      const content = JSON.stringify({ name: 'debate', description: 'Debate', ...fields });
+      assert.throws(
+        () => parseCommandDefinitions(content, 'debate.json'),
+        (error: CommandDefinitionError) => error instanceof CommandDefinitionError && error.source === 'debate.json',
+        content
+      );
+    }
+  });
+
+  it('rejects definitions named like a built-in command or alias', () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+    const definition: CommandDefinition = { name: 'think', description: 'Shadow', systemPrompt: 'Be terse.' };
+
+    assert.throws(() => llm.registerCommandDefinition(definition), CommandDefinitionError);
+    assert.throws(
+      () => llm.registerCommandDefinition({ ...definition, name: 'ponder', aliases: ['reflect'] }),
+      CommandDefinitionError
+    );
+  });
+});
@@ -0,0 +1,47 @@
+// universal-developer/test/expert.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandParameterError, Provider, UniversalLLM } from '../src/index';
+
+async function systemPromptFor(provider: Provider, level: number): Promise<string> {
+  const llm = new UniversalLLM({ provider, apiKey: 'test-key', telemetryEnabled: false });
+  const { transformed } = await llm.explain({ prompt: `/expert --domain=tax --level=${level} Explain depreciation` });
+
+  return transformed.systemPrompt!;
+}
+
+describe('/expert', () => {
+  for (const provider of ['anthropic', 'openai', 'qwen'] as Provider[]) {
+    it(`scales the ${provider} wording with the level`, async () => {
+      const novice = await systemPromptFor(provider, 1);
+      const master = await systemPromptFor(provider, 5);
+
+      assert.match(novice, /tax \(level 1\/5\)|level of 1 out of 5/);
+      assert.match(novice, /plain language/);
+      assert.doesNotMatch(master, /plain language/);
+    });
+  }
+
+  it('rejects levels that are not whole numbers', async () => {
+    const llm = new UniversalLLM({ provider: 'anthropic', apiKey: 'test-key', telemetryEnabled: false });
+
+    await assert.rejects(llm.explain({ prompt: '/expert --domain=tax --level=2.5 Explain it' }), (error: CommandParameterError) =>
+      error instanceof CommandParameterError && error.parameter === 'level' && /whole number/.test(error.message)
+    );
+    await assert.rejects(llm.explain({ prompt: '/fork --count=1.5 Pick one' }), CommandParameterError);
+    await assert.rejects(llm.explain({ prompt: '/loop --iterations=2.5 Improve this' }), CommandParameterError);
+  });
+
+  it('takes the domain and level as parameter values', async () => {
+    const llm = new UniversalLLM({ provider: 'anthropic', apiKey: 'test-key', telemetryEnabled: false });
+    const { commands, transformed } = await llm.explain({
+      prompt: '/expert Explain the rule',
+      parameters: { expert: { domain: 'the "wash sale" rule', level: '4' } }
+    });
+
+    assert.deepEqual(commands[0].parameters, { domain: 'the "wash sale" rule', level: 4 });
+    assert.match(transformed.systemPrompt!, /the "wash sale" rule \(level 4\/5\)/);
+    await assert.rejects(llm.explain({ prompt: '/expert Explain it', parameters: { expert: { level: 6 } } }), CommandParameterError);
+  });
+});
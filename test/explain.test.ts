@@ -0,0 +1,40 @@
+// universal-developer/test/explain.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Provider, UniversalLLM } from '../src/index';
+
+describe('explain()', () => {
+  it('shows the commands, transformed prompt and request without sending it', async () => {
+    // No scripted responses, so a request would fail
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [] });
+    const { commands, transformed, request } = await llm.explain({ prompt: '/think /reflect --depth=2 Explain Raft' });
+
+    assert.deepEqual(commands.map(({ name, parameters }) => ({ name, parameters })), [
+      { name: 'think', parameters: {} },
+      { name: 'reflect', parameters: { depth: 2 } }
+    ]);
+    assert.equal(transformed.userPrompt, 'Explain Raft');
+    assert.deepEqual(request.body.transformed, transformed);
+  });
+
+  for (const provider of ['anthropic', 'openai', 'qwen'] as Provider[]) {
+    it(`redacts the ${provider} API key`, async () => {
+      const llm = new UniversalLLM({ provider, apiKey: 'sk-secret-key', telemetryEnabled: false });
+      const { request } = await llm.explain({ prompt: '/fast What is Raft?' });
+
+      assert.equal(request.method, 'POST');
+      assert.match(request.url, /^https:\/\//);
+      assert.doesNotMatch(JSON.stringify(request.headers), /sk-secret-key/);
+      assert.ok(request.body.messages.length > 0);
+    });
+  }
+
+  it('shows how /fast differs between providers', async () => {
+    const qwen = new UniversalLLM({ provider: 'qwen', apiKey: 'test-key', telemetryEnabled: false });
+    const openai = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', telemetryEnabled: false });
+
+    assert.equal((await qwen.explain({ prompt: '/fast Hi' })).request.body.enable_thinking, false);
+    assert.equal((await openai.explain({ prompt: '/fast Hi' })).request.body.enable_thinking, undefined);
+  });
+});
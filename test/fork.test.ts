@@ -0,0 +1,59 @@
+// universal-developer/test/fork.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { UniversalLLM } from '../src/index';
+import { MockServer, startMockServer } from '../src/testing';
+
+describe('fork()', () => {
+  it('samples each alternative with its own request', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['red', 'blue', 'green'] });
+    const alternatives = await llm.fork({ prompt: '/fork --count=3 Name a color' });
+
+    assert.deepEqual(alternatives.map(alternative => alternative.text), ['red', 'blue', 'green']);
+    assert.ok(alternatives.every(alternative => alternative.usage!.outputTokens > 0));
+  });
+
+  it('takes the count as an argument when the prompt has no /fork', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['red', 'blue'] });
+
+    assert.equal((await llm.fork({ prompt: 'Name a color' }, 2)).length, 2);
+  });
+
+  describe('with OpenAI', () => {
+    let server: MockServer;
+
+    before(async () => {
+      server = await startMockServer({ apiKey: 'test-key' });
+    });
+
+    after(() => server.close());
+
+    it('asks for every alternative in one request with n', async () => {
+      const llm = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+      const sent = server.requests.length;
+      const alternatives = await llm.fork({ prompt: '/fork --count=3 Name a color' });
+
+      assert.equal(alternatives.length, 3);
+      assert.equal(server.requests.length - sent, 1);
+      assert.equal(server.requests[server.requests.length - 1].body.n, 3);
+      assert.ok(alternatives[0].usage);
+      assert.equal(alternatives[1].usage, undefined);
+    });
+
+    it('requests alternatives one by one when a beforeRequest hook answers', async () => {
+      const llm = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+      let answered = 0;
+      llm.use({
+        name: 'canned',
+        beforeRequest: () => ({ text: `canned ${++answered}`, model: 'canned', raw: null })
+      });
+      const sent = server.requests.length;
+      const alternatives = await llm.fork({ prompt: '/fork --count=3 Name a color' });
+
+      assert.equal(alternatives.length, 3);
+      assert.ok(alternatives.every(alternative => /^canned \d$/.test(alternative.text)));
+      assert.equal(server.requests.length, sent);
+    });
+  });
+});
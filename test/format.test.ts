@@ -0,0 +1,57 @@
+// universal-developer/test/format.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandParameterError, FormatValidationError, MockReply, UniversalLLM } from '../src/index';
+
+const schema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, age: { type: 'number' } },
+  required: ['name', 'age']
+};
+
+function createLLM(responses: Array<MockReply<any>>): UniversalLLM {
+  return new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses });
+}
+
+describe('/format repair', () => {
+  it('accepts JSON wrapped in a code fence', async () => {
+    const llm = createLLM(['```json\n{"name": "Ada", "age": 36}\n```']);
+    const result = await llm.generateDetailed({ prompt: '/format --format=json Describe Ada', parameters: { format: { schema } } });
+
+    assert.deepEqual(result.parsed, { name: 'Ada', age: 36 });
+  });
+
+  it('re-prompts with the validation errors until the output is valid', async () => {
+    const llm = createLLM(['Sure! Here it is: {"name": "Ada"', '{"name": "Ada"}', '{"name": "Ada", "age": 36}']);
+    const result = await llm.generateDetailed({ prompt: '/format --format=json Describe Ada', parameters: { format: { schema } } });
+
+    assert.deepEqual(result.parsed, { name: 'Ada', age: 36 });
+    assert.ok(result.usage!.outputTokens > 0);
+  });
+
+  it('fails once the repair attempts are spent', async () => {
+    const llm = createLLM(['not json', 'still not json']);
+
+    await assert.rejects(
+      llm.generateDetailed({ prompt: '/format --format=json --retries=1 Describe Ada' }),
+      (error: FormatValidationError) => error instanceof FormatValidationError && error.attempts === 2
+    );
+  });
+
+  it('takes the schema as a parameter value instead of quoting it into the prompt', async () => {
+    const profile = { ...schema, description: "the user's profile" };
+    const llm = createLLM(['{"name": "Ada", "age": 36}']);
+    const { commands, transformed } = await llm.explain({ prompt: '/format --format=json Describe Ada', parameters: { format: { schema: profile } } });
+
+    assert.deepEqual(commands[0].parameters.schema, profile);
+    assert.match(transformed.systemPrompt!, /the user's profile/);
+  });
+
+  it('rejects parameter values the command does not declare', async () => {
+    await assert.rejects(
+      createLLM([]).explain({ prompt: '/format Describe Ada', parameters: { format: { bogus: true } } }),
+      CommandParameterError
+    );
+  });
+});
@@ -0,0 +1,36 @@
+// universal-developer/test/grammar.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GrammarTransformationEngine } from '../src/index';
+
+const engine = new GrammarTransformationEngine();
+
+describe('GrammarTransformationEngine', () => {
+  it('rewrites Claude tags as universal commands', () => {
+    const result = engine.transform('<thinking>Consider edge cases</thinking> What is 2+2?', 'claude', 'universal');
+
+    assert.equal(result.content, '/think Consider edge cases What is 2+2?');
+    assert.deepEqual(result.operations, ['reflect.trace']);
+    assert.deepEqual(result.emulated, []);
+  });
+
+  it('translates between vendor grammars', () => {
+    assert.equal(engine.transform('/trace_reasoning Why is the sky blue?', 'gpt', 'qwen').content, 'Why is the sky blue? /think');
+    assert.equal(engine.transform('/think Explain Raft', 'universal', 'gemini').content, '@trace Explain Raft');
+  });
+
+  it('reports constructs the target has to emulate', () => {
+    const renamed = engine.transform('@reflect Review this plan', 'gemini', 'openai');
+    assert.equal(renamed.content, '/introspection Review this plan');
+    assert.deepEqual(renamed.emulated.map(entry => entry.construct), ['@reflect']);
+
+    const instructed = engine.transform('Summarize this /no_think', 'qwen', 'anthropic');
+    assert.equal(instructed.content, 'Respond directly and concisely, without extended reasoning.\n\nSummarize this');
+    assert.match(instructed.emulated[0].reason, /no equivalent/);
+  });
+
+  it('rejects unknown vendors', () => {
+    assert.throws(() => engine.transform('Hi', 'cohere', 'openai'), /Unsupported vendor: cohere/);
+  });
+});
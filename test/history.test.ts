@@ -0,0 +1,53 @@
+// universal-developer/test/history.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ChatMessage, UniversalLLM } from '../src/index';
+
+const messages: ChatMessage[] = [
+  { role: 'system', content: 'Answer in French.' },
+  { role: 'user', content: '/fast What is Raft?' },
+  { role: 'assistant', content: 'Un algorithme de consensus.' },
+  { role: 'user', content: '/think How does leader election work?' }
+];
+
+describe('message history', () => {
+  it('reads commands from the latest user turn only', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+    const { commands, transformed } = await llm.explain({ messages });
+
+    assert.deepEqual(commands.map(command => command.name), ['think']);
+    assert.equal(transformed.userPrompt, 'How does leader election work?');
+    assert.deepEqual(transformed.history, [
+      { role: 'user', content: 'What is Raft?' },
+      { role: 'assistant', content: 'Un algorithme de consensus.' }
+    ]);
+    assert.match(transformed.systemPrompt!, /^Answer in French\./);
+  });
+
+  it('appends prompt as the latest user turn', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+    const { transformed } = await llm.explain({ messages: messages.slice(0, 3), prompt: 'And log replication?' });
+
+    assert.equal(transformed.userPrompt, 'And log replication?');
+    assert.equal(transformed.history!.length, 2);
+  });
+
+  it('requires the conversation to end with a user turn', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+
+    await assert.rejects(llm.explain({ messages: messages.slice(0, 3) }), /last message must be a user message/);
+    await assert.rejects(llm.explain({}), /Either prompt or messages must be provided/);
+  });
+
+  it('sends the history in each provider\'s message format', async () => {
+    const claude = new UniversalLLM({ provider: 'anthropic', apiKey: 'test-key', telemetryEnabled: false });
+    const { request: anthropic } = await claude.explain({ messages });
+    assert.match(anthropic.body.system, /^Answer in French\./);
+    assert.deepEqual(anthropic.body.messages.map((message: any) => message.role), ['user', 'assistant', 'user']);
+
+    const gpt = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', telemetryEnabled: false });
+    const { request: openai } = await gpt.explain({ messages });
+    assert.deepEqual(openai.body.messages.map((message: any) => message.role), ['system', 'user', 'assistant', 'user']);
+  });
+});
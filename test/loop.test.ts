@@ -0,0 +1,39 @@
+// universal-developer/test/loop.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { UniversalLLM } from '../src/index';
+
+describe('loop()', () => {
+  it('drafts, critiques and revises for each iteration', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: ['draft', 'too long', 'shorter', 'too vague', 'final']
+    });
+    const result = await llm.loop({ prompt: '/loop --iterations=2 Write a haiku' });
+
+    assert.equal(result.text, 'final');
+    assert.deepEqual(result.trace.steps.map(step => `${step.type} ${step.iteration}`), [
+      'draft 0', 'critique 1', 'revision 1', 'critique 2', 'revision 2'
+    ]);
+    assert.equal(result.trace.stoppedEarly, false);
+    assert.ok(result.usage!.outputTokens >= 5);
+  });
+
+  it('stops early once a critique finds nothing to fix', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['draft', 'NO_ISSUES'] });
+    const result = await llm.loop({ prompt: 'Write a haiku' }, 3);
+
+    assert.equal(result.text, 'draft');
+    assert.equal(result.trace.steps.length, 2);
+    assert.equal(result.trace.stoppedEarly, true);
+  });
+
+  it('shows the critique to the revision', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['draft', 'add a season word', request => request.body.transformed.userPrompt] });
+    const result = await llm.loop({ prompt: '/loop --iterations=1 Write a haiku' });
+
+    assert.match(result.text, /add a season word/);
+  });
+});
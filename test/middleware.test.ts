@@ -0,0 +1,51 @@
+// universal-developer/test/middleware.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { UniversalLLM } from '../src/index';
+
+describe('middleware', () => {
+  it('runs hooks in order and lets them rewrite the call', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [request => request.body.transformed.userPrompt] });
+    const calls: string[] = [];
+
+    llm.use({
+      name: 'redact',
+      beforeParse: context => {
+        calls.push('beforeParse');
+        context.input = { ...context.input, prompt: (context.input.prompt as string).replace(/\d{3}-\d{2}-\d{4}/g, '[SSN]') };
+      },
+      afterTransform: () => { calls.push('afterTransform'); },
+      beforeRequest: () => { calls.push('beforeRequest'); },
+      afterResponse: context => {
+        calls.push('afterResponse');
+        context.response = { ...context.response!, text: context.response!.text.toUpperCase() };
+      }
+    });
+
+    assert.equal(await llm.generate({ prompt: 'My SSN is 123-45-6789' }), 'MY SSN IS [SSN]');
+    assert.deepEqual(calls, ['beforeParse', 'afterTransform', 'beforeRequest', 'afterResponse']);
+  });
+
+  it('answers the call when a hook returns a response', async () => {
+    // No scripted responses, so reaching the provider would fail
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [] });
+    llm.use({ afterTransform: () => ({ text: 'from the hook', model: 'hook', raw: null }) });
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'from the hook');
+  });
+
+  it('recovers from failures with onError', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: [{ error: { status: 401 } }] });
+    const errors: Error[] = [];
+    llm.use({
+      onError: error => {
+        errors.push(error);
+        return { text: 'The assistant is unavailable right now.', model: 'fallback', raw: null };
+      }
+    });
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'The assistant is unavailable right now.');
+    assert.equal(errors.length, 1);
+  });
+});
@@ -0,0 +1,75 @@
+// universal-developer/test/mock.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OverloadedError, UniversalLLM } from '../src/index';
+import { MockServer, startMockServer } from '../src/testing';
+
+describe('mock provider', () => {
+  it('replies with the scripted responses in order', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: ['first', { text: 'second', finishReason: 'length' }, (request, index) => `reply ${index + 1} to ${request.body.model}`]
+    });
+
+    assert.equal(await llm.generate({ prompt: 'One' }), 'first');
+    assert.equal((await llm.generateDetailed({ prompt: 'Two' })).finishReason, 'length');
+    assert.equal(await llm.generate({ prompt: 'Three' }), 'reply 3 to mock-model');
+    await assert.rejects(llm.generate({ prompt: 'Four' }), /only 3 responses are scripted/);
+  });
+
+  it('echoes the transformed prompt without a script', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+    const echoed = JSON.parse(await llm.generate({ prompt: '/fast What is Raft?' }));
+
+    assert.equal(echoed.userPrompt, 'What is Raft?');
+    assert.match(echoed.systemPrompt, /Answer briefly\./);
+  });
+
+  it('waits out the latency and raises scripted errors', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      retry: false,
+      latencyMs: 50,
+      responses: ['late', { error: { status: 529 } }]
+    });
+    const started = Date.now();
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'late');
+    assert.ok(Date.now() - started >= 45);
+    await assert.rejects(llm.generate({ prompt: 'Hello' }), OverloadedError);
+  });
+
+  describe('mock server', () => {
+    let server: MockServer;
+
+    before(async () => {
+      server = await startMockServer({ responses: [{ error: { status: 429, message: 'Slow down' } }, { error: { status: 429, message: 'Slow down' } }] });
+    });
+
+    after(() => server.close());
+
+    async function post(path: string): Promise<{ status: number, body: any }> {
+      const response = await fetch(`${server.url}${path}`, { method: 'POST', body: JSON.stringify({ model: 'any', messages: [] }) });
+
+      return { status: response.status, body: await response.json() };
+    }
+
+    it('reports errors in the format of each route\'s provider', async () => {
+      const anthropic = await post('/v1/messages');
+      assert.equal(anthropic.status, 429);
+      assert.equal(anthropic.body.type, 'error');
+      assert.equal(anthropic.body.error.message, 'Slow down');
+
+      const openai = await post('/v1/chat/completions');
+      assert.equal(openai.status, 429);
+      assert.equal(openai.body.error.message, 'Slow down');
+      assert.equal(openai.body.error.code, null);
+
+      assert.equal((await post('/v1/unknown')).status, 404);
+      assert.equal(server.requests.length, 2);
+    });
+  });
+});
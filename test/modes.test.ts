@@ -0,0 +1,52 @@
+// universal-developer/test/modes.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { UniversalLLM } from '../src/index';
+
+function createLLM(options: Record<string, any> = {}): UniversalLLM {
+  return new UniversalLLM({ provider: 'mock', telemetryEnabled: false, ...options });
+}
+
+describe('sticky modes', () => {
+  it('pins a mode once the call succeeds and clears it with /collapse', async () => {
+    const llm = createLLM({ responses: ['first', 'second', 'third'] });
+
+    await llm.generate({ prompt: '/think --sticky Plan it' });
+    assert.deepEqual(llm.getModeStack().map(mode => mode.name), ['think']);
+
+    const { commands } = await llm.explain({ prompt: 'Next step' });
+    assert.deepEqual(commands.map(command => command.name), ['think']);
+
+    await llm.generate({ prompt: '/collapse Summarize' });
+    assert.deepEqual(llm.getModeStack(), []);
+  });
+
+  it('leaves the modes unchanged when a call fails', async () => {
+    const llm = createLLM({ responses: [{ error: { status: 401 } }, 'pinned', { error: { status: 401 } }] });
+
+    await assert.rejects(llm.generate({ prompt: '/think --sticky Plan it' }));
+    assert.deepEqual(llm.getModeStack(), []);
+
+    await llm.generate({ prompt: '/think --sticky Plan it' });
+    await assert.rejects(llm.generate({ prompt: '/collapse Summarize' }));
+    assert.deepEqual(llm.getModeStack().map(mode => mode.name), ['think']);
+  });
+
+  it('keeps a pinned mode\'s parameters until the command is pinned again', async () => {
+    const llm = createLLM({ responses: ['first', 'second'] });
+
+    await llm.generate({ prompt: '/expert --sticky --domain="tax law" --level=3 Plan it' });
+    assert.deepEqual(llm.getModeStack()[0].parameters, { domain: 'tax law', level: 3 });
+
+    await llm.generate({ prompt: '/think --sticky /expert --sticky --domain=security Review it' });
+    assert.deepEqual(llm.getModeStack().map(mode => [mode.name, mode.parameters.domain]), [['think', undefined], ['expert', 'security']]);
+  });
+
+  it('does not pin modes when explaining a call', async () => {
+    const llm = createLLM();
+
+    await llm.explain({ prompt: '/think --sticky Plan it' });
+    assert.deepEqual(llm.getModeStack(), []);
+  });
+});
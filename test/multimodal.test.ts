@@ -0,0 +1,64 @@
+// universal-developer/test/multimodal.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentPart, UniversalLLM, UnsupportedContentError } from '../src/index';
+
+describe('images and documents', () => {
+  let directory: string;
+  let prompt: ContentPart[];
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ud-multimodal-'));
+    const screenshot = path.join(directory, 'screenshot.png');
+    fs.writeFileSync(screenshot, Buffer.from('not really a png'));
+
+    prompt = [
+      { type: 'text', text: '/reflect What is wrong with this layout?' },
+      { type: 'image', source: { type: 'file', path: screenshot } },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/mockup.jpg' } },
+      { type: 'document', source: { type: 'base64', data: Buffer.from('%PDF').toString('base64'), mediaType: 'application/pdf' }, name: 'Spec' }
+    ];
+  });
+
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('reads commands from the text parts', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+    const { commands } = await llm.explain({ prompt });
+
+    assert.deepEqual(commands.map(command => command.name), ['reflect']);
+  });
+
+  it('sends Anthropic image and document blocks', async () => {
+    const llm = new UniversalLLM({ provider: 'anthropic', apiKey: 'test-key', model: 'claude-sonnet-4-5', telemetryEnabled: false });
+    const { request } = await llm.explain({ prompt });
+    const content = request.body.messages[0].content;
+
+    assert.deepEqual(content.map((block: any) => block.type), ['image', 'image', 'document', 'text']);
+    assert.deepEqual(content[0].source, { type: 'base64', media_type: 'image/png', data: Buffer.from('not really a png').toString('base64') });
+    assert.deepEqual(content[1].source, { type: 'url', url: 'https://example.com/mockup.jpg' });
+    assert.equal(content[2].title, 'Spec');
+  });
+
+  it('sends OpenAI image_url and file parts', async () => {
+    const llm = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', model: 'gpt-4o', telemetryEnabled: false });
+    const { request } = await llm.explain({ prompt });
+    const content = request.body.messages[request.body.messages.length - 1].content;
+
+    assert.deepEqual(content.map((part: any) => part.type), ['image_url', 'image_url', 'file', 'text']);
+    assert.match(content[0].image_url.url, /^data:image\/png;base64,/);
+    assert.equal(content[2].file.filename, 'Spec');
+  });
+
+  it('rejects media for models without vision unless the vision option is set', async () => {
+    const llm = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', model: 'gpt-3.5-turbo', telemetryEnabled: false });
+    await assert.rejects(llm.explain({ prompt }), UnsupportedContentError);
+
+    const forced = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', model: 'gpt-3.5-turbo', vision: true, telemetryEnabled: false });
+    assert.ok((await forced.explain({ prompt })).request);
+  });
+});
@@ -0,0 +1,58 @@
+// universal-developer/test/namespaces.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandParameterError, UniversalLLM, resolveGlyph } from '../src/index';
+
+function createLLM(): UniversalLLM {
+  return new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+}
+
+async function resolve(llm: UniversalLLM, prompt: string) {
+  const { commands, transformed } = await llm.explain({ prompt });
+
+  return { commands: commands.map(({ name, parameters }) => ({ name, parameters })), userPrompt: transformed.userPrompt };
+}
+
+describe('runtime namespaces', () => {
+  it('resolves dotted names and glyphs to registered commands', async () => {
+    const llm = createLLM();
+
+    assert.equal((await resolve(llm, '/reflect.core Review this plan')).commands[0].name, 'reflect');
+    assert.equal((await resolve(llm, '/🧠 Review this plan')).commands[0].name, 'reflect');
+    assert.equal((await resolve(llm, '/⚠ Check this')).userPrompt, '/⚠ Check this');
+    assert.equal(resolveGlyph('🜏'), 'reflect.core');
+    assert.equal(resolveGlyph('/⚠'), 'collapse.detect');
+  });
+
+  it('passes declared brace parameters to the command', async () => {
+    const { commands } = await resolve(createLLM(), '.p/reflect/core{depth=2} Explain X');
+
+    assert.equal(commands[0].name, 'reflect');
+    assert.equal(commands[0].parameters.depth, 2);
+  });
+
+  it('ignores brace parameters the command does not declare', async () => {
+    const { commands } = await resolve(createLLM(), '.p/reflect/trace{depth=2, format="structured"} Explain X');
+
+    assert.equal(commands.length, 1);
+    assert.equal(commands[0].parameters.format, undefined);
+  });
+
+  it('still validates declared brace parameters', async () => {
+    await assert.rejects(createLLM().explain({ prompt: '.p/reflect/core{depth=7} Explain X' }), CommandParameterError);
+  });
+
+  it('runs registered namespaced commands', async () => {
+    const llm = createLLM();
+    llm.registerCommand('collapse.detect', {
+      description: 'Detect reasoning loops',
+      parameters: [{ name: 'threshold', description: 'Sensitivity', type: 'number', min: 0, max: 1 }],
+      transform: async (prompt, options) => ({ systemPrompt: `Threshold ${options.parameters.threshold}`, userPrompt: prompt, modelParameters: {} })
+    });
+
+    const { commands } = await resolve(llm, '.p/collapse/detect{threshold=0.7} Check this');
+    assert.deepEqual(commands, [{ name: 'collapse.detect', parameters: { threshold: 0.7 } }]);
+    assert.equal((await resolve(llm, '/⚠️ --threshold=0.5 Check this')).commands[0].parameters.threshold, 0.5);
+  });
+});
@@ -0,0 +1,56 @@
+// universal-developer/test/parameters.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CommandParameterError, UniversalLLM } from '../src/index';
+
+const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false });
+
+async function parametersOf(prompt: string): Promise<Record<string, any>> {
+  const { commands } = await llm.explain({ prompt });
+
+  return commands[commands.length - 1].parameters;
+}
+
+describe('command parameters', () => {
+  it('fills in defaults for parameters that are left out', async () => {
+    assert.deepEqual(await parametersOf('/loop Improve this'), { iterations: 3, mode: 'prompt' });
+  });
+
+  it('coerces values to their declared types', async () => {
+    const parameters = await parametersOf('/fork --count=4 --mode=execute Name a color');
+
+    assert.equal(parameters.count, 4);
+    assert.equal(parameters.mode, 'execute');
+  });
+
+  it('accepts double and single quoted values with spaces', async () => {
+    assert.equal((await parametersOf('/expert --domain="distributed systems" Explain Raft')).domain, 'distributed systems');
+    assert.equal((await parametersOf("/expert --domain='tax law' --level=3 Explain it")).domain, 'tax law');
+  });
+
+  it('parses JSON values', async () => {
+    const parameters = await parametersOf(`/format --format=json --schema='{"type":"object"}' Describe me`);
+
+    assert.deepEqual(parameters.schema, { type: 'object' });
+  });
+
+  it('rejects invalid values with the command and parameter named', async () => {
+    const cases = [
+      '/think --bogus=1 Explain X',
+      '/reflect --depth=9 Explain X',
+      '/fork --count=many Pick one',
+      '/format --format=yaml Describe me',
+      `/format --schema='{invalid' Describe me`,
+      '/expert Explain X'
+    ];
+
+    for (const prompt of cases) {
+      await assert.rejects(llm.explain({ prompt }), CommandParameterError, prompt);
+    }
+
+    await assert.rejects(llm.explain({ prompt: '/reflect --depth=9 Explain X' }), (error: CommandParameterError) =>
+      error.command === 'reflect' && error.parameter === 'depth' && /at most 5/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,41 @@
+// universal-developer/test/pricing.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BudgetExceededError, PricingError, UniversalLLM, calculateCost, getModelPricing } from '../src/index';
+
+const pricing = { inputPerMillion: 1_000_000, outputPerMillion: 2_000_000 };
+
+describe('cost and budgets', () => {
+  it('looks up list prices by model prefix', () => {
+    assert.deepEqual(getModelPricing('anthropic', 'claude-3-opus-20240229'), { inputPerMillion: 15, outputPerMillion: 75 });
+    assert.equal(getModelPricing('anthropic', 'claude-unknown'), undefined);
+    assert.equal(getModelPricing('anthropic', 'claude-unknown', pricing), pricing);
+    assert.equal(calculateCost({ inputTokens: 1000, outputTokens: 500, totalTokens: 1500 }, { inputPerMillion: 3, outputPerMillion: 15 }), 0.0105);
+  });
+
+  it('adds each result\'s cost to the session totals', async () => {
+    const usage = { inputTokens: 3, outputTokens: 2, totalTokens: 5 };
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, pricing, responses: [{ text: 'one', usage }, { text: 'two', usage }] });
+
+    const result = await llm.generateDetailed({ prompt: 'Hello' });
+    await llm.generate({ prompt: 'Again' });
+
+    assert.equal(result.cost, 7);
+    assert.deepEqual(llm.getCostStats(), { totalUSD: 14, inputTokens: 6, outputTokens: 4, requests: 2, unpricedRequests: 0 });
+  });
+
+  it('rejects calls estimated to exceed the budget before sending them', async () => {
+    // No scripted responses, so a request would fail differently
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, pricing, maxSessionCostUSD: 1, responses: [] });
+
+    await assert.rejects(llm.generate({ prompt: 'Hello' }), BudgetExceededError);
+    assert.equal(llm.getCostStats().requests, 0);
+  });
+
+  it('requires pricing to enforce a budget', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, maxSessionCostUSD: 1, responses: [] });
+
+    await assert.rejects(llm.generate({ prompt: 'Hello' }), PricingError);
+  });
+});
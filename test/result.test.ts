@@ -0,0 +1,58 @@
+// universal-developer/test/result.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Provider, UniversalLLM } from '../src/index';
+import { MockServer, startMockServer } from '../src/testing';
+
+describe('generate results', () => {
+  it('returns the text, usage, finish reason and applied commands', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: [{ text: 'Consensus', thinking: 'Recall Raft', usage: { inputTokens: 12, outputTokens: 3, totalTokens: 15 } }]
+    });
+    const result = await llm.generateDetailed({ prompt: '/think What is Raft?' });
+
+    assert.equal(result.text, 'Consensus');
+    assert.equal(result.thinking, 'Recall Raft');
+    assert.deepEqual(result.usage, { inputTokens: 12, outputTokens: 3, totalTokens: 15 });
+    assert.equal(result.finishReason, 'stop');
+    assert.equal(result.provider, 'mock');
+    assert.equal(result.model, 'mock-model');
+    assert.deepEqual(result.commands.map(command => command.name), ['think']);
+  });
+
+  it('still returns plain text from generate', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['Just text'] });
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'Just text');
+  });
+
+  describe('from provider responses', () => {
+    let server: MockServer;
+
+    before(async () => {
+      server = await startMockServer({ responses: [
+        { text: 'Cut off', thinking: 'Hmm', finishReason: 'length' },
+        { text: 'Cut off', finishReason: 'length' }
+      ] });
+    });
+
+    after(() => server.close());
+
+    for (const provider of ['anthropic', 'openai'] as Provider[]) {
+      it(`normalizes ${provider} responses`, async () => {
+        const llm = new UniversalLLM({ provider, apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+        const result = await llm.generateDetailed({ prompt: 'Tell me everything' });
+
+        assert.equal(result.text, 'Cut off');
+        assert.equal(result.finishReason, 'length');
+        assert.equal(result.provider, provider);
+        assert.match(result.requestId!, /^req_mock_/);
+        assert.ok(result.usage!.inputTokens > 0 && result.usage!.outputTokens > 0);
+        assert.ok(result.raw);
+      });
+    }
+  });
+});
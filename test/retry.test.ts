@@ -0,0 +1,92 @@
+// universal-developer/test/retry.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  AuthenticationError,
+  OverloadedError,
+  Provider,
+  ProviderError,
+  RateLimitError,
+  TimeoutError,
+  UniversalLLM,
+  createProviderError
+} from '../src/index';
+import { retryDelay } from '../src/adapters/retry';
+import { MockServer, startMockServer } from '../src/testing';
+
+function errorFor(status: number, retryAfterMs?: number): ProviderError {
+  return createProviderError(status, { error: { message: 'failed' } }, { provider: 'mock', status, retryAfterMs }, 'Request failed');
+}
+
+describe('error classification', () => {
+  it('maps statuses to typed errors', () => {
+    assert.ok(errorFor(401) instanceof AuthenticationError);
+    assert.ok(errorFor(429) instanceof RateLimitError);
+    assert.ok(errorFor(529) instanceof OverloadedError);
+    assert.ok(errorFor(504) instanceof TimeoutError);
+  });
+
+  it('retries only transient server errors', () => {
+    const retryable = [400, 401, 404, 429, 500, 501, 502, 503, 504, 505, 529]
+      .filter(status => errorFor(status).retryable);
+
+    assert.deepEqual(retryable, [429, 500, 502, 503, 504, 529]);
+  });
+});
+
+describe('retry delays', () => {
+  it('honors Retry-After up to maxDelayMs', () => {
+    assert.equal(retryDelay(errorFor(429, 2000), 0, { maxDelayMs: 5000 }), 2000);
+    assert.equal(retryDelay(errorFor(429, 60000), 0, { maxDelayMs: 5000 }), 5000);
+  });
+
+  it('stops once the retries are spent or for errors that are not retryable', () => {
+    assert.equal(retryDelay(errorFor(503), 2, { maxRetries: 2 }), undefined);
+    assert.equal(retryDelay(errorFor(401), 0), undefined);
+    assert.equal(retryDelay(errorFor(503), 0, false), undefined);
+  });
+
+  it('retries a rate limited call until it succeeds', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      retry: { initialDelayMs: 1 },
+      responses: [{ error: { status: 429, retryAfterMs: 1 } }, { error: { status: 503 } }, 'done']
+    });
+
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'done');
+  });
+});
+
+describe('provider errors over HTTP', () => {
+  const providers: Provider[] = ['anthropic', 'openai'];
+  let server: MockServer;
+
+  before(async () => {
+    server = await startMockServer({ responses: [
+      ...providers.flatMap(() => [{ error: { status: 429, retryAfterMs: 1 } }, 'done']),
+      ...providers.map(() => ({ error: { status: 401 } }))
+    ] });
+  });
+
+  after(() => server.close());
+
+  function createLLM(provider: Provider): UniversalLLM {
+    return new UniversalLLM({ provider, apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+  }
+
+  for (const provider of providers) {
+    it(`retries ${provider} rate limits after the advertised delay`, async () => {
+      assert.equal(await createLLM(provider).generate({ prompt: 'Hello' }), 'done');
+    });
+  }
+
+  for (const provider of providers) {
+    it(`raises typed ${provider} errors with the provider's details`, async () => {
+      await assert.rejects(createLLM(provider).generate({ prompt: 'Hello' }), (error: ProviderError) =>
+        error instanceof AuthenticationError && error.provider === provider && error.status === 401 && error.type !== undefined
+      );
+    });
+  }
+});
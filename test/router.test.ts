@@ -0,0 +1,71 @@
+// universal-developer/test/router.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AuthenticationError, StreamEvent, UniversalLLM } from '../src/index';
+
+function createRouter(first: any[], second: any[], options: Record<string, any> = {}): UniversalLLM {
+  return new UniversalLLM({
+    telemetryEnabled: false,
+    retry: false,
+    providers: [
+      { name: 'primary', provider: 'mock', apiKey: '', responses: first },
+      { name: 'backup', provider: 'mock', apiKey: '', responses: second }
+    ],
+    ...options
+  });
+}
+
+describe('provider fallback', () => {
+  it('falls back on retryable errors', async () => {
+    const result = await createRouter([{ error: { status: 529 } }], ['from backup']).generateDetailed({ prompt: 'Hello' });
+
+    assert.equal(result.text, 'from backup');
+    assert.equal(result.route!.name, 'backup');
+    assert.deepEqual(result.route!.fallbacks.map(fallback => fallback.name), ['primary']);
+  });
+
+  it('raises other errors without falling back', async () => {
+    await assert.rejects(
+      createRouter([{ error: { status: 401 } }], ['from backup']).generate({ prompt: 'Hello' }),
+      AuthenticationError
+    );
+  });
+
+  it('falls back before the first stream event', async () => {
+    let done: StreamEvent | undefined;
+    let text = '';
+    for await (const event of createRouter([{ error: { status: 503 } }], ['from backup']).generateStream({ prompt: 'Hello' })) {
+      if (event.type === 'text_delta') {
+        text += event.text;
+      } else if (event.type === 'done') {
+        done = event;
+      }
+    }
+
+    assert.equal(text, 'from backup');
+    assert.equal(done?.type === 'done' && done.route?.name, 'backup');
+  });
+});
+
+describe('routes', () => {
+  it('sends calls using a routed command, or a pinned mode, to its providers', async () => {
+    const llm = createRouter(['first', 'collapsed'], ['routed', 'pinned'], { routes: [{ command: 'fast', providers: ['backup'] }] });
+
+    assert.equal((await llm.generateDetailed({ prompt: 'Hello' })).route!.name, 'primary');
+    assert.equal(await llm.generate({ prompt: '/fast --sticky Hello' }), 'routed');
+    assert.equal((await llm.generateDetailed({ prompt: 'Hello' })).route!.name, 'backup');
+    assert.equal(await llm.generate({ prompt: '/collapse Hello' }), 'collapsed');
+  });
+
+  it('rejects routes to unknown providers and routes without providers', () => {
+    assert.throws(
+      () => createRouter([], [], { routes: [{ command: 'fast', providers: ['haiku'] }] }),
+      /unknown provider "haiku"/
+    );
+    assert.throws(
+      () => new UniversalLLM({ provider: 'mock', telemetryEnabled: false, routes: [{ command: 'fast', providers: ['mock'] }] }),
+      /need providers to be set/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+// universal-developer/test/streaming.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MemoryCache, Provider, StreamEvent, UniversalLLM } from '../src/index';
+import { MockServer, startMockServer } from '../src/testing';
+
+async function collect(stream: AsyncIterable<StreamEvent>): Promise<{ text: string, thinking: string, done?: StreamEvent }> {
+  let text = '';
+  let thinking = '';
+  let done: StreamEvent | undefined;
+
+  for await (const event of stream) {
+    if (event.type === 'text_delta') {
+      text += event.text;
+    } else if (event.type === 'thinking_delta') {
+      thinking += event.thinking;
+    } else {
+      done = event;
+    }
+  }
+
+  return { text, thinking, done };
+}
+
+describe('streaming', () => {
+  it('assembles deltas from the mock provider', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: [{ text: 'one two three', thinking: 'counting' }]
+    });
+    const { text, thinking, done } = await collect(llm.generateStream({ prompt: 'Count' }));
+
+    assert.equal(text, 'one two three');
+    assert.equal(thinking, 'counting');
+    assert.equal(done?.type === 'done' && done.finishReason, 'stop');
+  });
+
+  it('sends executed /fork and /loop results once they complete', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: ['red', 'blue', 'draft', 'NO_ISSUES']
+    });
+
+    const fork = await collect(llm.generateStream({ prompt: '/fork --mode=execute Name a color' }));
+    assert.match(fork.text, /Alternative 1:\nred[\s\S]*Alternative 2:\nblue/);
+
+    const loop = await collect(llm.generateStream({ prompt: '/loop --mode=execute --iterations=2 Write a haiku' }));
+    assert.equal(loop.text, 'draft');
+  });
+
+  it('validates and repairs JSON output before sending it', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, responses: ['not json', '{"ok": true}'] });
+    const { text } = await collect(llm.generateStream({ prompt: '/format --format=json Report status' }));
+
+    assert.equal(text, '{"ok": true}');
+  });
+
+  it('caches streamed responses apart from whole ones', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      cache: new MemoryCache(),
+      responses: ['streamed', 'whole']
+    });
+
+    assert.equal((await collect(llm.generateStream({ prompt: 'Hello' }))).text, 'streamed');
+    assert.equal((await llm.generateDetailed({ prompt: 'Hello' })).text, 'whole');
+    // Both are now cached, so neither call needs a third scripted response
+    assert.equal((await collect(llm.generateStream({ prompt: 'Hello' }))).text, 'streamed');
+    assert.equal(await llm.generate({ prompt: 'Hello' }), 'whole');
+  });
+
+  describe('over HTTP', () => {
+    let server: MockServer;
+
+    before(async () => {
+      server = await startMockServer({ apiKey: 'test-key' });
+    });
+
+    after(() => server.close());
+
+    for (const provider of ['anthropic', 'openai'] as Provider[]) {
+      it(`parses ${provider} server-sent events`, async () => {
+        const llm = new UniversalLLM({ provider, apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+        const { text, done } = await collect(llm.generateStream({ prompt: 'Echo these words back' }));
+
+        assert.equal(text, 'Echo these words back');
+        assert.equal(done?.type === 'done' && done.finishReason, 'stop');
+        assert.ok(done?.type === 'done' && done.usage!.outputTokens > 0);
+      });
+    }
+  });
+});
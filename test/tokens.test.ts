@@ -0,0 +1,40 @@
+// universal-developer/test/tokens.test.ts
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ContextWindowError, EstimatingTokenizer, UniversalLLM, getTokenizer } from '../src/index';
+
+describe('token budgets', () => {
+  it('estimates tokens per provider family', () => {
+    const text = 'The quick brown fox jumps over the lazy dog.';
+
+    assert.ok(getTokenizer('anthropic').countTokens(text) >= getTokenizer('openai').countTokens(text));
+    assert.equal(getTokenizer('unknown'), getTokenizer('openai'));
+    assert.equal(new EstimatingTokenizer(4, 1).countTokens(''), 0);
+  });
+
+  it('counts the prompt by source and clamps max_tokens to the window', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, contextWindow: 2000, maxTokens: 4096 });
+    const budget = await llm.countTokens({ prompt: '/think Summarize this report', systemPrompt: 'You are terse.' });
+    const { prompt } = budget;
+
+    assert.equal(budget.contextWindow, 2000);
+    assert.ok(prompt.systemPrompt > 0 && prompt.userPrompt > 0);
+    assert.equal(prompt.total, prompt.systemPrompt + prompt.history + prompt.userPrompt + prompt.attachments + prompt.tools);
+    assert.equal(budget.maxTokens, 2000 - prompt.total);
+  });
+
+  it('uses the tokenizer option instead of the estimate', async () => {
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, tokenizer: { countTokens: (text: string) => text.length } });
+    const { prompt } = await llm.countTokens({ prompt: 'abcdef' });
+
+    assert.equal(prompt.userPrompt, 6);
+  });
+
+  it('fails before sending a prompt that does not fit', async () => {
+    // No scripted responses, so a request would fail differently
+    const llm = new UniversalLLM({ provider: 'mock', telemetryEnabled: false, contextWindow: 300, responses: [] });
+
+    await assert.rejects(llm.generate({ prompt: 'word '.repeat(200) }), ContextWindowError);
+  });
+});
@@ -0,0 +1,73 @@
+// universal-developer/test/tools.test.ts
+
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Provider, ToolDefinition, UniversalLLM } from '../src/index';
+import { MockServer, startMockServer } from '../src/testing';
+
+const weather: ToolDefinition = {
+  name: 'get_weather',
+  description: 'Get the current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city']
+  },
+  handler: async ({ city }) => `Rain in ${city}`
+};
+
+describe('tool calling', () => {
+  it('sends tools in each provider\'s format', async () => {
+    const claude = new UniversalLLM({ provider: 'anthropic', apiKey: 'test-key', telemetryEnabled: false });
+    const { request: anthropic } = await claude.explain({ prompt: 'Umbrella?', tools: [weather], toolChoice: { name: 'get_weather' } });
+    assert.deepEqual(anthropic.body.tools, [{ name: 'get_weather', description: weather.description, input_schema: weather.parameters }]);
+    assert.deepEqual(anthropic.body.tool_choice, { type: 'tool', name: 'get_weather' });
+
+    const gpt = new UniversalLLM({ provider: 'openai', apiKey: 'test-key', telemetryEnabled: false });
+    const { request: openai } = await gpt.explain({ prompt: 'Umbrella?', tools: [weather], toolChoice: 'required' });
+    assert.deepEqual(openai.body.tools, [{
+      type: 'function',
+      function: { name: 'get_weather', description: weather.description, parameters: weather.parameters }
+    }]);
+    assert.equal(openai.body.tool_choice, 'required');
+  });
+
+  it('runs handlers and sends the results back until the model answers', async () => {
+    const llm = new UniversalLLM({
+      provider: 'mock',
+      telemetryEnabled: false,
+      responses: [
+        { toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] },
+        { toolCalls: [{ id: 'call_2', name: 'get_weather', arguments: { town: 'Lyon' } }] },
+        'Take an umbrella.'
+      ]
+    });
+    const result = await llm.generateDetailed({ prompt: 'Do I need an umbrella in Paris?', tools: [weather], runTools: true });
+
+    assert.equal(result.text, 'Take an umbrella.');
+    assert.deepEqual(result.toolResults![0], { toolCallId: 'call_1', name: 'get_weather', content: 'Rain in Paris' });
+    // Invalid arguments go back to the model as an error result
+    assert.equal(result.toolResults![1].isError, true);
+  });
+
+  describe('over HTTP', () => {
+    let server: MockServer;
+
+    before(async () => {
+      const call = { toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] };
+      server = await startMockServer({ responses: [call, call] });
+    });
+
+    after(() => server.close());
+
+    for (const provider of ['anthropic', 'openai'] as Provider[]) {
+      it(`normalizes ${provider} tool calls`, async () => {
+        const llm = new UniversalLLM({ provider, apiKey: 'test-key', baseURL: server.url, telemetryEnabled: false });
+        const result = await llm.generateDetailed({ prompt: 'Umbrella?', tools: [weather] });
+
+        assert.deepEqual(result.toolCalls, [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+        assert.equal(result.finishReason, 'tool_use');
+      });
+    }
+  });
+});